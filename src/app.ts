@@ -5,45 +5,118 @@ import helmet from 'helmet';
 import { createClient } from '@supabase/supabase-js';
 import Stripe from 'stripe';
 import dotenv from 'dotenv';
+import { BillingProvider } from './billing/provider';
+import { createStripeBillingProvider } from './billing/stripeProvider';
+import { createInMemoryBillingProvider } from './billing/memoryProvider';
+import { AuthProvider, Repositories } from './repositories/types';
+import { createSupabaseAuthProvider, createSupabaseRepositories } from './repositories/supabase';
+import { requestContext } from './middleware/requestContext';
+import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { logger } from './utils/logger';
+import { processDueAccountDeletions } from './services/accountDeletion';
+import { addScheduledRoutineLogs } from './services/routines';
 
 // Routes
-import drinksRoutes from './routes/drinks';
-import intakeRoutes from './routes/intake';
-import subscriptionRoutes from './routes/subscription';
-import userRoutes from './routes/user';
+import { createAdminRouter } from './routes/admin';
+import { createDrinksRouter } from './routes/drinks';
+import { createIntakeRouter } from './routes/intake';
+import { createRoutinesRouter } from './routes/routines';
+import { createSubscriptionRoutes } from './routes/subscription';
+import { createUserRouter } from './routes/user';
 
-dotenv.config();
+// How often deletions past their undo window are carried out
+const ACCOUNT_DELETION_INTERVAL_MS = 60 * 60 * 1000;
 
-const app = express();
+// How often auto-logged routines are checked for scheduled items that have come due
+const ROUTINE_SCHEDULE_INTERVAL_MS = 5 * 60 * 1000;
 
-// Middleware
-app.use(helmet());
-app.use(cors());
-app.use(express.json());
+export interface AppDependencies {
+  repositories: Repositories;
+  billing: BillingProvider;
+  auth: AuthProvider;
+}
 
-// Initialize Supabase
-export const supabase = createClient(
-  process.env.SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_KEY!
-);
+// Build the Express app without binding a port, so tests can drive it over HTTP
+// with in-memory dependencies
+export const createApp = (deps: AppDependencies) => {
+  const app = express();
+  const subscription = createSubscriptionRoutes(deps);
 
-// Initialize Stripe
-export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: '2025-06-30.basil', // Use a stable API version
-});
+  // Middleware
+  app.use(requestContext);
+  app.use(helmet());
+  app.use(cors());
 
-// Routes
-app.use('/api/drinks', drinksRoutes);
-app.use('/api/intake', intakeRoutes);
-app.use('/api/subscription', subscriptionRoutes);
-app.use('/api/user', userRoutes);
-
-// Health check
-app.get('/health', (req, res) => {
-  res.json({ status: 'OK', timestamp: new Date().toISOString() });
-});
-
-const PORT = parseInt(process.env.PORT || "3000", 10);
-app.listen(PORT, '0.0.0.0', () => {
-  console.log(`Server running on port ${PORT}`);
-});
\ No newline at end of file
+  // Stripe webhooks must see the untouched body to verify signatures, so this
+  // route is registered before the global JSON parser
+  app.post('/api/subscription/webhook', express.raw({ type: 'application/json' }), subscription.stripeWebhookHandler);
+
+  app.use(express.json());
+
+  // Routes
+  app.use('/api/drinks', createDrinksRouter(deps));
+  app.use('/api/intake', createIntakeRouter(deps));
+  app.use('/api/routines', createRoutinesRouter(deps));
+  app.use('/api/subscription', subscription.router);
+  app.use('/api/user', createUserRouter(deps));
+  app.use('/api/admin', createAdminRouter(deps));
+
+  // Health check
+  app.get('/health', (req, res) => {
+    res.json({ status: 'OK', timestamp: new Date().toISOString() });
+  });
+
+  // Anything thrown above ends up here as a JSON error with a stable code
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  return app;
+};
+
+// Production wiring from the environment: Supabase for data and auth, Stripe for billing.
+// BILLING_PROVIDER=memory runs without Stripe (local dev).
+export const createDependenciesFromEnv = (): AppDependencies => {
+  const supabase = createClient(
+    process.env.SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_KEY!
+  );
+
+  const billing = process.env.BILLING_PROVIDER === 'memory'
+    ? createInMemoryBillingProvider(process.env.STRIPE_WEBHOOK_SECRET)
+    : createStripeBillingProvider(
+      new Stripe(process.env.STRIPE_SECRET_KEY!, {
+        apiVersion: '2025-06-30.basil', // Use a stable API version
+      }),
+      process.env.STRIPE_WEBHOOK_SECRET!
+    );
+
+  return {
+    repositories: createSupabaseRepositories(supabase),
+    billing,
+    auth: createSupabaseAuthProvider(supabase),
+  };
+};
+
+if (require.main === module) {
+  dotenv.config();
+
+  const deps = createDependenciesFromEnv();
+  const app = createApp(deps);
+
+  const PORT = parseInt(process.env.PORT || "3000", 10);
+  app.listen(PORT, '0.0.0.0', () => {
+    logger.info('server started', { port: PORT });
+  });
+
+  setInterval(() => {
+    processDueAccountDeletions(deps).catch((error) => {
+      logger.error('account deletion run failed', { error });
+    });
+  }, ACCOUNT_DELETION_INTERVAL_MS);
+
+  setInterval(() => {
+    addScheduledRoutineLogs(deps.repositories).catch((error) => {
+      logger.error('routine schedule run failed', { error });
+    });
+  }, ROUTINE_SCHEDULE_INTERVAL_MS);
+}
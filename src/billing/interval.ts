@@ -0,0 +1,26 @@
+// src/billing/interval.ts
+
+// Add `count` billing intervals to a unix timestamp using calendar arithmetic,
+// so monthly periods follow month lengths and annual periods follow years
+export const addBillingInterval = (timestamp: number, interval: string, count: number = 1): number => {
+  const date = new Date(timestamp * 1000);
+
+  switch (interval) {
+    case 'day':
+      date.setUTCDate(date.getUTCDate() + count);
+      break;
+    case 'week':
+      date.setUTCDate(date.getUTCDate() + 7 * count);
+      break;
+    case 'month':
+      date.setUTCMonth(date.getUTCMonth() + count);
+      break;
+    case 'year':
+      date.setUTCFullYear(date.getUTCFullYear() + count);
+      break;
+    default:
+      throw new Error(`Unknown billing interval: ${interval}`);
+  }
+
+  return Math.floor(date.getTime() / 1000);
+};
@@ -0,0 +1,529 @@
+// src/billing/memoryProvider.ts
+// Deterministic in-memory BillingProvider for tests and local development.
+// Time only moves when told to, IDs are sequential, and renewals, declines and
+// cancellations are triggered explicitly through the simulate* helpers. Every state
+// change is recorded as a BillingEvent that can be signed and posted to the webhook.
+import crypto from 'crypto';
+import {
+  BillingEvent,
+  BillingInvoice,
+  BillingPaymentMethod,
+  BillingPrice,
+  BillingProvider,
+  BillingSubscription,
+  PaymentDeclinedError,
+  WebhookSignatureError,
+} from './provider';
+import { addBillingInterval } from './interval';
+
+// 2025-01-01T00:00:00Z
+const DEFAULT_START_TIME = 1735689600;
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// Stripe's default: signatures more than five minutes from the clock are rejected
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+interface MemoryCard extends BillingPaymentMethod {
+  declines: boolean;
+}
+
+interface MemorySetupIntent {
+  id: string;
+  customer_id: string;
+  payment_method_id: string | null;
+}
+
+export interface InMemoryBillingProvider extends BillingProvider {
+  readonly events: BillingEvent[];
+  advanceTime(seconds: number): void;
+
+  addPrice(price: BillingPrice): void;
+  addPromotionCode(code: string): string;
+  // Attach a card directly; `declines` makes every charge to it fail
+  addCard(customerId: string, card?: { brand?: string; last4?: string; declines?: boolean }): string;
+  // Complete a setup intent as if the customer entered a card in the app
+  completeSetupIntent(setupIntentId: string, card?: { declines?: boolean }): string;
+  setCardDeclines(paymentMethodId: string, declines: boolean): void;
+
+  // Move to the end of the current period and renew (or end a scheduled cancellation)
+  simulateRenewal(subscriptionId: string): BillingSubscription;
+  // Renewal attempt that fails regardless of the card
+  simulatePaymentFailure(subscriptionId: string): BillingSubscription;
+  // Stripe gave up retrying: the subscription is cancelled
+  simulateExpiry(subscriptionId: string): BillingSubscription;
+  simulateRefund(customerId: string): void;
+
+  // Sign an event the way Stripe does (a `t=…,v1=…` header), by default at the current time
+  signEvent(event: BillingEvent, timestamp?: number): { payload: Buffer; signature: string };
+}
+
+export const createInMemoryBillingProvider = (
+  webhookSecret: string = 'whsec_memory',
+  startTime: number = DEFAULT_START_TIME
+): InMemoryBillingProvider => {
+  let clock = startTime;
+  const counters: Record<string, number> = {};
+  const nextId = (prefix: string) => {
+    counters[prefix] = (counters[prefix] ?? 0) + 1;
+    return `${prefix}_${String(counters[prefix]).padStart(6, '0')}`;
+  };
+
+  const customers = new Map<string, { id: string; email: string; default_payment_method: string | null }>();
+  const cards = new Map<string, MemoryCard>();
+  const setupIntents = new Map<string, MemorySetupIntent>();
+  const prices = new Map<string, BillingPrice>();
+  const promotionCodes = new Map<string, string>();
+  const subscriptions = new Map<string, BillingSubscription & { payment_method_id: string | null }>();
+  const invoices: BillingInvoice[] = [];
+  const events: BillingEvent[] = [];
+
+  const publicSubscription = (subscription: BillingSubscription & { payment_method_id: string | null }) => {
+    const { payment_method_id, ...rest } = subscription;
+    return { ...rest };
+  };
+
+  const emit = (type: string, customerId: string | null, subscriptionId: string | null, extra: Partial<BillingEvent> = {}) => {
+    const subscription = subscriptionId ? subscriptions.get(subscriptionId) : undefined;
+    events.push({
+      id: nextId('evt'),
+      type,
+      created: clock,
+      customer_id: customerId,
+      subscription_id: subscriptionId,
+      subscription: type.startsWith('customer.subscription.') && subscription ? publicSubscription(subscription) : null,
+      refunded: false,
+      ...extra,
+    });
+  };
+
+  const getCustomer = (customerId: string) => {
+    const customer = customers.get(customerId);
+    if (!customer) {
+      throw new Error(`No such customer: ${customerId}`);
+    }
+    return customer;
+  };
+
+  const getSub = (subscriptionId: string) => {
+    const subscription = subscriptions.get(subscriptionId);
+    if (!subscription) {
+      throw new Error(`No such subscription: ${subscriptionId}`);
+    }
+    return subscription;
+  };
+
+  const getPriceOrThrow = (priceId: string) => {
+    const price = prices.get(priceId);
+    if (!price) {
+      throw new Error(`No such price: ${priceId}`);
+    }
+    return price;
+  };
+
+  const charge = (paymentMethodId: string | null) => {
+    const card = paymentMethodId ? cards.get(paymentMethodId) : undefined;
+    if (!card || card.declines) {
+      throw new PaymentDeclinedError('Your card was declined.', 'generic_decline');
+    }
+  };
+
+  const periodEndFrom = (start: number, price: BillingPrice) => {
+    return addBillingInterval(start, price.interval ?? 'month', price.interval_count ?? 1);
+  };
+
+  const createInvoice = (
+    subscription: BillingSubscription,
+    amount: number,
+    status: 'open' | 'paid',
+    periodStart: number,
+    periodEnd: number,
+    description: string
+  ): BillingInvoice => {
+    const price = subscription.price_id ? prices.get(subscription.price_id) : undefined;
+    const invoice: BillingInvoice = {
+      id: nextId('in'),
+      number: `MEM-${String(invoices.length + 1).padStart(4, '0')}`,
+      status,
+      subscription_id: subscription.id,
+      amount_due: amount,
+      amount_paid: status === 'paid' ? amount : 0,
+      currency: price?.currency ?? 'usd',
+      created: clock,
+      period_start: periodStart,
+      period_end: periodEnd,
+      next_payment_attempt: status === 'open' ? clock + 3 * SECONDS_PER_DAY : null,
+      hosted_invoice_url: null,
+      invoice_pdf: null,
+      lines: [{ description, amount, period_start: periodStart, period_end: periodEnd }],
+    };
+    invoices.push(invoice);
+    return invoice;
+  };
+
+  const renew = (subscriptionId: string, forceFailure: boolean): BillingSubscription => {
+    const subscription = getSub(subscriptionId);
+    if (subscription.status === 'canceled') {
+      return publicSubscription(subscription);
+    }
+
+    clock = Math.max(clock, subscription.current_period_end ?? clock);
+
+    if (subscription.cancel_at_period_end) {
+      subscription.status = 'canceled';
+      emit('customer.subscription.deleted', subscription.customer_id, subscription.id);
+      return publicSubscription(subscription);
+    }
+
+    const price = getPriceOrThrow(subscription.price_id!);
+    const periodStart = clock;
+    const periodEnd = periodEndFrom(periodStart, price);
+
+    // As on Stripe, the period rolls over whether or not the renewal is paid
+    subscription.current_period_start = periodStart;
+    subscription.current_period_end = periodEnd;
+
+    try {
+      if (forceFailure) {
+        throw new PaymentDeclinedError('Your card was declined.', 'generic_decline');
+      }
+      charge(subscription.payment_method_id);
+    } catch (error) {
+      if (!(error instanceof PaymentDeclinedError)) throw error;
+      subscription.status = 'past_due';
+      createInvoice(subscription, price.amount, 'open', periodStart, periodEnd, 'Renewal');
+      emit('invoice.payment_failed', subscription.customer_id, subscription.id);
+      emit('customer.subscription.updated', subscription.customer_id, subscription.id);
+      return publicSubscription(subscription);
+    }
+
+    subscription.status = 'active';
+    subscription.trial_end = null;
+    createInvoice(subscription, price.amount, 'paid', periodStart, periodEnd, 'Renewal');
+    emit('invoice.paid', subscription.customer_id, subscription.id);
+    emit('customer.subscription.updated', subscription.customer_id, subscription.id);
+    return publicSubscription(subscription);
+  };
+
+  // Stripe signs `${timestamp}.${payload}` and sends `t=<timestamp>,v1=<hmac>`; the timestamp
+  // bounds how long a captured request can be replayed
+  const sign = (payload: string, timestamp: number) =>
+    crypto.createHmac('sha256', webhookSecret).update(`${timestamp}.${payload}`).digest('hex');
+
+  return {
+    events,
+
+    now: () => clock,
+
+    advanceTime(seconds) {
+      clock += seconds;
+    },
+
+    addPrice(price) {
+      prices.set(price.id, price);
+    },
+
+    addPromotionCode(code) {
+      const id = nextId('promo');
+      promotionCodes.set(code, id);
+      return id;
+    },
+
+    addCard(customerId, card = {}) {
+      getCustomer(customerId);
+      const id = nextId('pm');
+      cards.set(id, {
+        id,
+        customer_id: customerId,
+        brand: card.brand ?? 'visa',
+        last4: card.last4 ?? '4242',
+        exp_month: 12,
+        exp_year: 2099,
+        declines: card.declines ?? false,
+      });
+      return id;
+    },
+
+    completeSetupIntent(setupIntentId, card = {}) {
+      const setupIntent = setupIntents.get(setupIntentId);
+      if (!setupIntent) {
+        throw new Error(`No such setup intent: ${setupIntentId}`);
+      }
+      setupIntent.payment_method_id = this.addCard(setupIntent.customer_id, card);
+      return setupIntent.payment_method_id;
+    },
+
+    setCardDeclines(paymentMethodId, declines) {
+      const card = cards.get(paymentMethodId);
+      if (card) {
+        card.declines = declines;
+      }
+    },
+
+    simulateRenewal(subscriptionId) {
+      return renew(subscriptionId, false);
+    },
+
+    simulatePaymentFailure(subscriptionId) {
+      return renew(subscriptionId, true);
+    },
+
+    simulateExpiry(subscriptionId) {
+      const subscription = getSub(subscriptionId);
+      subscription.status = 'canceled';
+      emit('customer.subscription.deleted', subscription.customer_id, subscription.id);
+      return publicSubscription(subscription);
+    },
+
+    simulateRefund(customerId) {
+      emit('charge.refunded', customerId, null, { refunded: true });
+    },
+
+    signEvent(event, timestamp = clock) {
+      const payload = JSON.stringify(event);
+      return { payload: Buffer.from(payload), signature: `t=${timestamp},v1=${sign(payload, timestamp)}` };
+    },
+
+    async createCustomer({ email }) {
+      const id = nextId('cus');
+      customers.set(id, { id, email, default_payment_method: null });
+      return { id };
+    },
+
+    async deleteCustomer(customerId) {
+      getCustomer(customerId);
+      for (const subscription of subscriptions.values()) {
+        if (subscription.customer_id === customerId && subscription.status !== 'canceled') {
+          subscription.status = 'canceled';
+          emit('customer.subscription.deleted', customerId, subscription.id);
+        }
+      }
+      for (const card of cards.values()) {
+        if (card.customer_id === customerId) {
+          card.customer_id = null;
+        }
+      }
+      customers.delete(customerId);
+    },
+
+    async getDefaultPaymentMethod(customerId) {
+      return getCustomer(customerId).default_payment_method;
+    },
+
+    async setDefaultPaymentMethod(customerId, paymentMethodId) {
+      getCustomer(customerId).default_payment_method = paymentMethodId;
+    },
+
+    async createSetupIntent(customerId) {
+      getCustomer(customerId);
+      const id = nextId('seti');
+      setupIntents.set(id, { id, customer_id: customerId, payment_method_id: null });
+      return { id, client_secret: `${id}_secret` };
+    },
+
+    async getSetupIntentPaymentMethod(setupIntentId) {
+      return setupIntents.get(setupIntentId)?.payment_method_id ?? null;
+    },
+
+    async listPaymentMethods(customerId) {
+      return [...cards.values()]
+        .filter((card) => card.customer_id === customerId)
+        .map(({ declines, ...card }) => card);
+    },
+
+    async getPaymentMethod(paymentMethodId) {
+      const card = cards.get(paymentMethodId);
+      if (!card) {
+        return null;
+      }
+      const { declines, ...rest } = card;
+      return rest;
+    },
+
+    async detachPaymentMethod(paymentMethodId) {
+      const card = cards.get(paymentMethodId);
+      if (card) {
+        card.customer_id = null;
+      }
+    },
+
+    async getPrice(priceId) {
+      return getPriceOrThrow(priceId);
+    },
+
+    async findPromotionCode(code) {
+      return promotionCodes.get(code) ?? null;
+    },
+
+    async chargeOnce({ payment_method_id }) {
+      charge(payment_method_id);
+      return { id: nextId('pi'), status: 'succeeded' };
+    },
+
+    async createSubscription({ customer_id, price_id, payment_method_id, trial_days }) {
+      getCustomer(customer_id);
+      const price = getPriceOrThrow(price_id);
+
+      if (!trial_days) {
+        charge(payment_method_id);
+      }
+
+      const trialEnd = trial_days ? clock + trial_days * SECONDS_PER_DAY : null;
+      const subscription = {
+        id: nextId('sub'),
+        customer_id,
+        status: trialEnd ? 'trialing' as const : 'active' as const,
+        price_id,
+        item_id: nextId('si'),
+        cancel_at_period_end: false,
+        current_period_start: clock,
+        current_period_end: trialEnd ?? periodEndFrom(clock, price),
+        trial_end: trialEnd,
+        payment_method_id,
+      };
+      subscriptions.set(subscription.id, subscription);
+
+      emit('customer.subscription.created', customer_id, subscription.id);
+      if (!trialEnd) {
+        createInvoice(subscription, price.amount, 'paid', clock, subscription.current_period_end, 'Subscription creation');
+        emit('invoice.paid', customer_id, subscription.id);
+      }
+
+      return publicSubscription(subscription);
+    },
+
+    async getSubscription(subscriptionId) {
+      return publicSubscription(getSub(subscriptionId));
+    },
+
+    async updateSubscription(subscriptionId, { cancel_at_period_end, default_payment_method, price_id }) {
+      const subscription = getSub(subscriptionId);
+
+      if (cancel_at_period_end !== undefined) {
+        subscription.cancel_at_period_end = cancel_at_period_end;
+      }
+      if (default_payment_method !== undefined) {
+        subscription.payment_method_id = default_payment_method;
+      }
+      if (price_id && price_id !== subscription.price_id) {
+        const oldPrice = getPriceOrThrow(subscription.price_id!);
+        const newPrice = getPriceOrThrow(price_id);
+        // Simplified proration: the price difference is invoiced (or credited) immediately
+        const difference = newPrice.amount - oldPrice.amount;
+        if (difference > 0) {
+          charge(subscription.payment_method_id);
+        }
+        createInvoice(subscription, difference, 'paid', clock, subscription.current_period_end ?? clock, 'Plan change');
+        subscription.price_id = price_id;
+        subscription.current_period_start = clock;
+        subscription.current_period_end = periodEndFrom(clock, newPrice);
+      }
+
+      emit('customer.subscription.updated', subscription.customer_id, subscription.id);
+      return publicSubscription(subscription);
+    },
+
+    async cancelSubscription(subscriptionId) {
+      const subscription = getSub(subscriptionId);
+      subscription.status = 'canceled';
+      emit('customer.subscription.deleted', subscription.customer_id, subscription.id);
+      return publicSubscription(subscription);
+    },
+
+    async listInvoices(customerId, options = {}) {
+      let matching = invoices
+        .filter((invoice) => {
+          const subscription = invoice.subscription_id ? subscriptions.get(invoice.subscription_id) : undefined;
+          return subscription?.customer_id === customerId;
+        })
+        .filter((invoice) => !options.subscription_id || invoice.subscription_id === options.subscription_id)
+        .filter((invoice) => !options.status || invoice.status === options.status)
+        .reverse();
+
+      if (options.starting_after) {
+        const index = matching.findIndex((invoice) => invoice.id === options.starting_after);
+        matching = matching.slice(index + 1);
+      }
+
+      const limit = options.limit ?? 10;
+      return { data: matching.slice(0, limit), has_more: matching.length > limit };
+    },
+
+    async previewInvoice(customerId, subscriptionId, change) {
+      const subscription = getSub(subscriptionId);
+      const price = getPriceOrThrow(change?.price_id ?? subscription.price_id!);
+      const amount = change
+        ? price.amount - getPriceOrThrow(subscription.price_id!).amount
+        : price.amount;
+      const periodStart = change ? change.proration_date : subscription.current_period_end ?? clock;
+
+      return {
+        id: 'upcoming',
+        number: null,
+        status: 'draft',
+        subscription_id: subscriptionId,
+        amount_due: Math.max(amount, 0),
+        amount_paid: 0,
+        currency: price.currency,
+        created: clock,
+        period_start: periodStart,
+        period_end: periodEndFrom(periodStart, price),
+        next_payment_attempt: change ? clock : subscription.current_period_end,
+        hosted_invoice_url: null,
+        invoice_pdf: null,
+        lines: [{
+          description: change ? 'Plan change' : 'Renewal',
+          amount,
+          period_start: periodStart,
+          period_end: periodEndFrom(periodStart, price),
+        }],
+      };
+    },
+
+    async payInvoice(invoiceId, paymentMethodId) {
+      const invoice = invoices.find((candidate) => candidate.id === invoiceId);
+      if (!invoice) {
+        throw new Error(`No such invoice: ${invoiceId}`);
+      }
+
+      charge(paymentMethodId);
+      invoice.status = 'paid';
+      invoice.amount_paid = invoice.amount_due;
+      invoice.next_payment_attempt = null;
+
+      const subscription = invoice.subscription_id ? subscriptions.get(invoice.subscription_id) : undefined;
+      if (subscription && (subscription.status === 'past_due' || subscription.status === 'unpaid')) {
+        subscription.status = 'active';
+        emit('invoice.paid', subscription.customer_id, subscription.id);
+        emit('customer.subscription.updated', subscription.customer_id, subscription.id);
+      }
+
+      return invoice;
+    },
+
+    async constructWebhookEvent(payload, signature) {
+      const parts = (signature ?? '').split(',').map((part) => part.split('='));
+      const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+      const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value ?? '');
+
+      if (!Number.isInteger(timestamp) || signatures.length === 0) {
+        throw new WebhookSignatureError('Unable to extract timestamp and signatures from header');
+      }
+
+      const expected = Buffer.from(sign(payload.toString('utf8'), timestamp));
+      const matches = signatures.some((candidate) => {
+        const actual = Buffer.from(candidate);
+        return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+      });
+      if (!matches) {
+        throw new WebhookSignatureError('No signatures found matching the expected signature for payload');
+      }
+
+      if (Math.abs(clock - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+        throw new WebhookSignatureError('Timestamp outside the tolerance zone');
+      }
+
+      return JSON.parse(payload.toString('utf8')) as BillingEvent;
+    },
+  };
+};
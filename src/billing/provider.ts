@@ -0,0 +1,184 @@
+// src/billing/provider.ts
+// Payment-provider abstraction. Routes talk to a BillingProvider instead of the Stripe
+// client so subscription flows can run against the in-memory provider in tests.
+// Status and event names follow Stripe's vocabulary since that's what we bill with.
+
+export type ProviderSubscriptionStatus =
+  | 'incomplete'
+  | 'incomplete_expired'
+  | 'trialing'
+  | 'active'
+  | 'past_due'
+  | 'unpaid'
+  | 'paused'
+  | 'canceled';
+
+export interface BillingSubscription {
+  id: string;
+  customer_id: string;
+  status: ProviderSubscriptionStatus;
+  price_id: string | null;
+  // Needed to swap the price on plan changes
+  item_id: string | null;
+  cancel_at_period_end: boolean;
+  // Unix seconds. After a failed renewal the current period is the unpaid one, so paid
+  // access ended at current_period_start.
+  current_period_start: number | null;
+  current_period_end: number | null;
+  trial_end: number | null;
+}
+
+export interface BillingPrice {
+  id: string;
+  amount: number;
+  currency: string;
+  interval: 'day' | 'week' | 'month' | 'year' | null;
+  interval_count: number | null;
+}
+
+export interface BillingPaymentMethod {
+  id: string;
+  customer_id: string | null;
+  brand: string | null;
+  last4: string | null;
+  exp_month: number | null;
+  exp_year: number | null;
+}
+
+export interface BillingInvoiceLine {
+  description: string | null;
+  amount: number;
+  period_start: number;
+  period_end: number;
+}
+
+export interface BillingInvoice {
+  id: string;
+  number: string | null;
+  status: string | null;
+  subscription_id: string | null;
+  amount_due: number;
+  amount_paid: number;
+  currency: string;
+  created: number;
+  period_start: number;
+  period_end: number;
+  next_payment_attempt: number | null;
+  hosted_invoice_url: string | null;
+  invoice_pdf: string | null;
+  lines: BillingInvoiceLine[];
+}
+
+export interface BillingEvent {
+  id: string;
+  type: string;
+  // Unix seconds
+  created: number;
+  customer_id: string | null;
+  // Subscription the event concerns, if any
+  subscription_id: string | null;
+  // Snapshot carried by customer.subscription.* events
+  subscription: BillingSubscription | null;
+  // charge.refunded: whether the charge was refunded in full
+  refunded: boolean;
+}
+
+export interface Discount {
+  promotion_code?: string;
+  coupon?: string;
+}
+
+export interface CreateSubscriptionParams {
+  customer_id: string;
+  price_id: string;
+  payment_method_id: string;
+  discounts?: Discount[];
+  trial_days?: number;
+}
+
+export interface UpdateSubscriptionParams {
+  cancel_at_period_end?: boolean;
+  default_payment_method?: string;
+  // Plan change: swap the price on the subscription's item, invoicing prorations now
+  price_id?: string;
+  proration_date?: number;
+}
+
+export interface ChargeParams {
+  customer_id: string;
+  payment_method_id: string;
+  amount: number;
+  currency: string;
+  metadata?: Record<string, string>;
+}
+
+// Thrown when a card is declined; routes answer 402
+export class PaymentDeclinedError extends Error {
+  decline_code: string | null;
+
+  constructor(message: string, declineCode: string | null = null) {
+    super(message);
+    this.name = 'PaymentDeclinedError';
+    this.decline_code = declineCode;
+  }
+}
+
+// Thrown when a webhook payload fails signature verification
+export class WebhookSignatureError extends Error {
+  constructor(message: string = 'Webhook signature verification failed') {
+    super(message);
+    this.name = 'WebhookSignatureError';
+  }
+}
+
+export interface BillingProvider {
+  // Current time on the provider's clock, in Unix seconds. Entitlement is checked against it
+  // so it agrees with the periods the provider reports.
+  now(): number;
+
+  // Customers
+  createCustomer(params: { email: string; metadata?: Record<string, string> }): Promise<{ id: string }>;
+  // Removes the customer and their saved cards; any subscriptions still running end immediately
+  deleteCustomer(customerId: string): Promise<void>;
+  getDefaultPaymentMethod(customerId: string): Promise<string | null>;
+  setDefaultPaymentMethod(customerId: string, paymentMethodId: string): Promise<void>;
+
+  // Cards
+  createSetupIntent(customerId: string): Promise<{ id: string; client_secret: string | null }>;
+  // The card a setup intent collected, once it has succeeded
+  getSetupIntentPaymentMethod(setupIntentId: string): Promise<string | null>;
+  listPaymentMethods(customerId: string): Promise<BillingPaymentMethod[]>;
+  getPaymentMethod(paymentMethodId: string): Promise<BillingPaymentMethod | null>;
+  detachPaymentMethod(paymentMethodId: string): Promise<void>;
+
+  // Catalog
+  getPrice(priceId: string): Promise<BillingPrice>;
+  // Resolve a customer-facing promotion code to its ID, if active
+  findPromotionCode(code: string): Promise<string | null>;
+
+  // Payments
+  chargeOnce(params: ChargeParams): Promise<{ id: string; status: string }>;
+
+  // Subscriptions
+  createSubscription(params: CreateSubscriptionParams): Promise<BillingSubscription>;
+  getSubscription(subscriptionId: string): Promise<BillingSubscription>;
+  updateSubscription(subscriptionId: string, params: UpdateSubscriptionParams): Promise<BillingSubscription>;
+  // Ends the subscription immediately
+  cancelSubscription(subscriptionId: string, options?: { prorate?: boolean }): Promise<BillingSubscription>;
+
+  // Invoices
+  listInvoices(
+    customerId: string,
+    options?: { limit?: number; starting_after?: string; subscription_id?: string; status?: 'open' | 'paid' }
+  ): Promise<{ data: BillingInvoice[]; has_more: boolean }>;
+  // Next invoice of a subscription, optionally as if its price were changed
+  previewInvoice(
+    customerId: string,
+    subscriptionId: string,
+    change?: { price_id: string; proration_date: number }
+  ): Promise<BillingInvoice>;
+  payInvoice(invoiceId: string, paymentMethodId: string): Promise<BillingInvoice>;
+
+  // Webhooks: verify the signature over the raw body and normalise the event
+  constructWebhookEvent(payload: Buffer, signature: string): Promise<BillingEvent>;
+}
@@ -0,0 +1,313 @@
+// src/billing/stripeProvider.ts
+// BillingProvider backed by the Stripe API.
+import Stripe from 'stripe';
+import {
+  BillingEvent,
+  BillingInvoice,
+  BillingPaymentMethod,
+  BillingProvider,
+  BillingSubscription,
+  PaymentDeclinedError,
+  WebhookSignatureError,
+} from './provider';
+import { addBillingInterval } from './interval';
+
+const idOf = (value: string | { id: string } | null | undefined): string | null => {
+  if (!value) {
+    return null;
+  }
+  return typeof value === 'string' ? value : value.id;
+};
+
+// Fields older API versions still send where newer ones moved them
+type LegacySubscription = Stripe.Subscription & { current_period_start?: number; current_period_end?: number };
+type LegacyInvoice = Stripe.Invoice & { subscription?: string | Stripe.Subscription | null };
+
+// Bounds of the current period. Newer API versions report the period on subscription items
+// rather than the subscription; as a last resort derive it from the billing anchor.
+const periodOf = (subscription: LegacySubscription): { start: number | null; end: number | null } => {
+  const item = subscription.items?.data?.[0];
+  const start = subscription.current_period_start ?? item?.current_period_start;
+  const end = subscription.current_period_end ?? item?.current_period_end;
+
+  if (end) {
+    return { start: start ?? null, end };
+  }
+
+  const recurring = item?.price?.recurring ?? item?.plan;
+  if (subscription.billing_cycle_anchor && recurring?.interval) {
+    const now = Math.floor(Date.now() / 1000);
+    let periodStart = subscription.billing_cycle_anchor;
+    let periodEnd = addBillingInterval(periodStart, recurring.interval, recurring.interval_count ?? 1);
+    // Roll forward to the period containing now
+    while (periodEnd <= now) {
+      periodStart = periodEnd;
+      periodEnd = addBillingInterval(periodEnd, recurring.interval, recurring.interval_count ?? 1);
+    }
+    return { start: periodStart, end: periodEnd };
+  }
+
+  return { start: null, end: null };
+};
+
+const toSubscription = (subscription: Stripe.Subscription): BillingSubscription => {
+  const item = subscription.items?.data?.[0];
+  const period = periodOf(subscription);
+  return {
+    id: subscription.id,
+    customer_id: idOf(subscription.customer)!,
+    status: subscription.status,
+    price_id: item?.price?.id ?? null,
+    item_id: item?.id ?? null,
+    cancel_at_period_end: subscription.cancel_at_period_end,
+    current_period_start: period.start,
+    current_period_end: period.end,
+    trial_end: subscription.trial_end ?? null,
+  };
+};
+
+// Subscription ID an invoice belongs to (moved under `parent` in newer API versions)
+const invoiceSubscriptionId = (invoice: LegacyInvoice): string | null => {
+  return idOf(invoice.parent?.subscription_details?.subscription ?? invoice.subscription);
+};
+
+const toInvoice = (invoice: Stripe.Invoice): BillingInvoice => ({
+  id: invoice.id!,
+  number: invoice.number,
+  status: invoice.status,
+  subscription_id: invoiceSubscriptionId(invoice),
+  amount_due: invoice.amount_due,
+  amount_paid: invoice.amount_paid,
+  currency: invoice.currency,
+  created: invoice.created,
+  period_start: invoice.period_start,
+  period_end: invoice.period_end,
+  next_payment_attempt: invoice.next_payment_attempt,
+  hosted_invoice_url: invoice.hosted_invoice_url ?? null,
+  invoice_pdf: invoice.invoice_pdf ?? null,
+  lines: invoice.lines.data.map((line) => ({
+    description: line.description,
+    amount: line.amount,
+    period_start: line.period.start,
+    period_end: line.period.end,
+  })),
+});
+
+const toPaymentMethod = (paymentMethod: Stripe.PaymentMethod): BillingPaymentMethod => ({
+  id: paymentMethod.id,
+  customer_id: idOf(paymentMethod.customer),
+  brand: paymentMethod.card?.brand ?? null,
+  last4: paymentMethod.card?.last4 ?? null,
+  exp_month: paymentMethod.card?.exp_month ?? null,
+  exp_year: paymentMethod.card?.exp_year ?? null,
+});
+
+// Translate card declines into the provider-neutral error
+const withDeclines = async <T>(operation: () => Promise<T>): Promise<T> => {
+  try {
+    return await operation();
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeCardError) {
+      throw new PaymentDeclinedError(error.message, error.decline_code ?? null);
+    }
+    throw error;
+  }
+};
+
+export const createStripeBillingProvider = (stripe: Stripe, webhookSecret: string): BillingProvider => ({
+  now: () => Math.floor(Date.now() / 1000),
+
+  async createCustomer({ email, metadata }) {
+    const customer = await stripe.customers.create({ email, metadata });
+    return { id: customer.id };
+  },
+
+  async deleteCustomer(customerId) {
+    await stripe.customers.del(customerId);
+  },
+
+  async getDefaultPaymentMethod(customerId) {
+    const customer = await stripe.customers.retrieve(customerId);
+    if (customer.deleted) {
+      return null;
+    }
+    return idOf(customer.invoice_settings?.default_payment_method);
+  },
+
+  async setDefaultPaymentMethod(customerId, paymentMethodId) {
+    await stripe.customers.update(customerId, {
+      invoice_settings: { default_payment_method: paymentMethodId },
+    });
+  },
+
+  async createSetupIntent(customerId) {
+    const setupIntent = await stripe.setupIntents.create({
+      customer: customerId,
+      payment_method_types: ['card'],
+      usage: 'off_session',
+    });
+    return { id: setupIntent.id, client_secret: setupIntent.client_secret };
+  },
+
+  async getSetupIntentPaymentMethod(setupIntentId) {
+    const setupIntent = await stripe.setupIntents.retrieve(setupIntentId);
+    if (setupIntent.status !== 'succeeded') {
+      return null;
+    }
+    return idOf(setupIntent.payment_method);
+  },
+
+  async listPaymentMethods(customerId) {
+    const paymentMethods = await stripe.paymentMethods.list({ customer: customerId, type: 'card' });
+    return paymentMethods.data.map(toPaymentMethod);
+  },
+
+  async getPaymentMethod(paymentMethodId) {
+    try {
+      return toPaymentMethod(await stripe.paymentMethods.retrieve(paymentMethodId));
+    } catch (error) {
+      if (error instanceof Stripe.errors.StripeError && error.code === 'resource_missing') {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async detachPaymentMethod(paymentMethodId) {
+    await stripe.paymentMethods.detach(paymentMethodId);
+  },
+
+  async getPrice(priceId) {
+    const price = await stripe.prices.retrieve(priceId);
+    return {
+      id: price.id,
+      amount: price.unit_amount ?? 0,
+      currency: price.currency,
+      interval: price.recurring?.interval ?? null,
+      interval_count: price.recurring?.interval_count ?? null,
+    };
+  },
+
+  async findPromotionCode(code) {
+    const promotionCodes = await stripe.promotionCodes.list({ code, active: true, limit: 1 });
+    return promotionCodes.data[0]?.id ?? null;
+  },
+
+  async chargeOnce({ customer_id, payment_method_id, amount, currency, metadata }) {
+    const paymentIntent = await withDeclines(() => stripe.paymentIntents.create({
+      amount,
+      currency,
+      customer: customer_id,
+      payment_method: payment_method_id,
+      off_session: true,
+      confirm: true,
+      metadata,
+    }));
+    return { id: paymentIntent.id, status: paymentIntent.status };
+  },
+
+  async createSubscription({ customer_id, price_id, payment_method_id, discounts, trial_days }) {
+    const subscription = await withDeclines(() => stripe.subscriptions.create({
+      customer: customer_id,
+      items: [{ price: price_id }],
+      default_payment_method: payment_method_id,
+      payment_behavior: 'error_if_incomplete',
+      discounts,
+      trial_period_days: trial_days,
+      expand: ['latest_invoice.payment_intent'],
+    }));
+    return toSubscription(subscription);
+  },
+
+  async getSubscription(subscriptionId) {
+    return toSubscription(await stripe.subscriptions.retrieve(subscriptionId));
+  },
+
+  async updateSubscription(subscriptionId, { cancel_at_period_end, default_payment_method, price_id, proration_date }) {
+    const params: Stripe.SubscriptionUpdateParams = { cancel_at_period_end, default_payment_method };
+
+    if (price_id) {
+      const current = await stripe.subscriptions.retrieve(subscriptionId);
+      params.items = [{ id: current.items.data[0].id, price: price_id }];
+      // Prorations are invoiced immediately: upgrades are charged now, downgrades become account credit
+      params.proration_behavior = 'always_invoice';
+      params.proration_date = proration_date;
+      params.payment_behavior = 'error_if_incomplete';
+    }
+
+    return toSubscription(await withDeclines(() => stripe.subscriptions.update(subscriptionId, params)));
+  },
+
+  async cancelSubscription(subscriptionId, options = {}) {
+    return toSubscription(await stripe.subscriptions.cancel(subscriptionId, { prorate: options.prorate }));
+  },
+
+  async listInvoices(customerId, options = {}) {
+    const invoices = await stripe.invoices.list({
+      customer: customerId,
+      limit: options.limit,
+      starting_after: options.starting_after,
+      subscription: options.subscription_id,
+      status: options.status,
+    });
+    return { data: invoices.data.map(toInvoice), has_more: invoices.has_more };
+  },
+
+  async previewInvoice(customerId, subscriptionId, change) {
+    const params: Stripe.InvoiceCreatePreviewParams = {
+      customer: customerId,
+      subscription: subscriptionId,
+    };
+
+    if (change) {
+      const current = await stripe.subscriptions.retrieve(subscriptionId);
+      params.subscription_details = {
+        items: [{ id: current.items.data[0].id, price: change.price_id }],
+        proration_behavior: 'always_invoice',
+        proration_date: change.proration_date,
+      };
+    }
+
+    return toInvoice(await stripe.invoices.createPreview(params));
+  },
+
+  async payInvoice(invoiceId, paymentMethodId) {
+    return toInvoice(await withDeclines(() => stripe.invoices.pay(invoiceId, { payment_method: paymentMethodId })));
+  },
+
+  async constructWebhookEvent(payload, signature) {
+    let event: Stripe.Event;
+    try {
+      event = stripe.webhooks.constructEvent(payload, signature, webhookSecret);
+    } catch (error) {
+      throw new WebhookSignatureError(error instanceof Error ? error.message : undefined);
+    }
+
+    // Only the fields read below; the object's full type depends on the event type
+    const eventObject = event.data.object as {
+      id: string;
+      customer?: string | { id: string } | null;
+      refunded?: boolean;
+    };
+    const isSubscriptionEvent = event.type.startsWith('customer.subscription.');
+
+    const normalized: BillingEvent = {
+      id: event.id,
+      type: event.type,
+      created: event.created,
+      customer_id: idOf(eventObject.customer),
+      subscription_id: null,
+      subscription: null,
+      refunded: event.type === 'charge.refunded' && eventObject.refunded === true,
+    };
+
+    if (isSubscriptionEvent) {
+      normalized.subscription = toSubscription(event.data.object as Stripe.Subscription);
+      normalized.subscription_id = eventObject.id;
+    } else if (event.type.startsWith('invoice.')) {
+      normalized.subscription_id = invoiceSubscriptionId(event.data.object as Stripe.Invoice);
+    }
+
+    return normalized;
+  },
+});
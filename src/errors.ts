@@ -0,0 +1,61 @@
+// src/errors.ts
+// Errors thrown by routes and middleware. The central error handler turns them into
+// `{ error, code, request_id, ...details }` responses; `code` is stable for clients to branch on.
+import { FieldErrors } from './validation/schema';
+
+export class AppError extends Error {
+  readonly status: number;
+  readonly code: string;
+  // Extra fields merged into the response body
+  readonly details: Record<string, unknown>;
+
+  constructor(status: number, code: string, message: string, details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'AppError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(message: string, code: string = 'bad_request', details?: Record<string, unknown>) {
+    super(400, code, message, details);
+    this.name = 'BadRequestError';
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(fields: FieldErrors) {
+    super(400, 'validation_failed', 'Validation failed', { fields });
+    this.name = 'ValidationError';
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message: string, code: string = 'unauthorized') {
+    super(401, code, message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string, code: string = 'forbidden', details?: Record<string, unknown>) {
+    super(403, code, message, details);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string, code: string = 'not_found') {
+    super(404, code, message);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, code: string = 'conflict', details?: Record<string, unknown>) {
+    super(409, code, message, details);
+    this.name = 'ConflictError';
+  }
+}
@@ -1,17 +1,41 @@
-// UPDATE src/middleware/auth.ts - Fix the requireActiveSubscription function
+// src/middleware/auth.ts
+// Authentication, and gates on premium features and the admin role
 import { Request, Response, NextFunction } from 'express';
-import { supabase } from '../app';
+import { ParamsDictionary } from 'express-serve-static-core';
+import { ParsedQs } from 'qs';
+import { AuthProvider, ProfileRepository, UserRole } from '../repositories/types';
+import { BillingProvider } from '../billing/provider';
+import { ForbiddenError, UnauthorizedError } from '../errors';
+import { logger } from '../utils/logger';
+import { resolveTimezone } from '../utils/timezone';
+import { SubscriptionStatus, normalizeStatus } from '../services/subscription';
+import { Feature, Tier, hasFeature, tierFor } from '../services/entitlements';
 
-export interface AuthRequest extends Request {
+// Type parameters narrow params, body and query once the validate middleware has run
+export interface AuthRequest<P = ParamsDictionary, ReqBody = unknown, ReqQuery = ParsedQs>
+  extends Request<P, unknown, ReqBody, ReqQuery> {
   user?: {
     id: string;
     email: string;
-    subscription_status: string;
+    role: UserRole;
+    subscription_status: SubscriptionStatus;
+    subscription_expires_at: string | null;
+    tier: Tier;
+    timezone: string;
   };
 }
 
-export const authenticateUser = async (
-  req: AuthRequest,
+// Middleware that only reads or sets req.user leaves params, body and query untyped, so it can
+// run ahead of validate() on any route
+type UserRequest = AuthRequest<unknown, unknown, unknown>;
+
+// The tier is judged on the billing provider's clock, the one subscription periods are measured by
+export const createAuthenticateUser = (
+  auth: AuthProvider,
+  profiles: ProfileRepository,
+  billing: BillingProvider
+) => async (
+  req: UserRequest,
   res: Response,
   next: NextFunction
 ) => {
@@ -19,48 +43,65 @@ export const authenticateUser = async (
     const token = req.headers.authorization?.replace('Bearer ', '');
 
     if (!token) {
-      return res.status(401).json({ error: 'No token provided' });
+      return next(new UnauthorizedError('No token provided', 'missing_token'));
     }
 
-    const { data: { user }, error } = await supabase.auth.getUser(token);
+    const user = await auth.getUser(token);
 
-    if (error || !user) {
-      return res.status(401).json({ error: 'Invalid token' });
+    if (!user) {
+      return next(new UnauthorizedError('Invalid token', 'invalid_token'));
     }
 
     // Get user profile with subscription status
-    const { data: profile } = await supabase
-      .from('user_profiles')
-      .select('*')
-      .eq('id', user.id)
-      .single();
+    const profile = await profiles.findById(user.id);
+
+    const subscriptionStatus = normalizeStatus(profile?.subscription_status);
+    const subscriptionExpiresAt = profile?.subscription_expires_at ?? null;
+    const now = new Date(billing.now() * 1000);
 
     req.user = {
       id: user.id,
-      email: user.email!,
-      subscription_status: profile?.subscription_status || 'inactive'
+      email: user.email,
+      role: profile?.role ?? 'user',
+      subscription_status: subscriptionStatus,
+      subscription_expires_at: subscriptionExpiresAt,
+      tier: tierFor(subscriptionStatus, subscriptionExpiresAt, profile?.subscription_plan, now),
+      timezone: resolveTimezone(profile?.timezone)
     };
 
     next();
   } catch (error) {
-    res.status(401).json({ error: 'Authentication failed' });
+    logger.warn('authentication failed', { request_id: res.locals.request_id, error });
+    next(new UnauthorizedError('Authentication failed', 'authentication_failed'));
   }
 };
 
-export const requireActiveSubscription = (
-  req: AuthRequest,
+// Gate a route on a premium feature. Free-tier users get a 403 the client can turn into an upsell.
+export const requireFeature = (feature: Feature) => (
+  req: UserRequest,
   res: Response,
   next: NextFunction
 ) => {
-  const status = req.user?.subscription_status;
+  if (req.user && hasFeature(req.user.tier, feature)) {
+    next();
+  } else {
+    next(new ForbiddenError('Premium subscription required', 'premium_required', {
+      feature,
+      tier: req.user?.tier,
+      subscription_status: req.user?.subscription_status
+    }));
+  }
+};
 
-  // FIXED: Allow both active and active_until_period_end
-  if (status === 'active' || status === 'active_until_period_end') {
+// Gate a route on the admin role (set directly on the profile; there is no endpoint to grant it)
+export const requireAdmin = (
+  req: UserRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (req.user?.role === 'admin') {
     next();
   } else {
-    return res.status(403).json({
-      error: 'Active subscription required',
-      subscription_status: status
-    });
+    next(new ForbiddenError('Admin access required', 'admin_required'));
   }
-};
\ No newline at end of file
+};
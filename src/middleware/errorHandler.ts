@@ -0,0 +1,62 @@
+// src/middleware/errorHandler.ts
+import { Request, Response, NextFunction } from 'express';
+import { AuthRequest } from './auth';
+import { AppError, BadRequestError, NotFoundError } from '../errors';
+import { PaymentDeclinedError, WebhookSignatureError } from '../billing/provider';
+import { logger } from '../utils/logger';
+
+// Map anything thrown to an AppError; unknown errors become an opaque 500
+const toAppError = (error: unknown): AppError => {
+  if (error instanceof AppError) {
+    return error;
+  }
+  if (error instanceof PaymentDeclinedError) {
+    return new AppError(402, 'payment_declined', 'Payment failed', { decline_code: error.decline_code });
+  }
+  if (error instanceof WebhookSignatureError) {
+    return new BadRequestError(error.message, 'invalid_signature');
+  }
+
+  // body-parser errors (malformed JSON, oversized body) carry a client status and a type
+  const err = error as { status?: unknown; type?: unknown; expose?: unknown };
+  if (typeof err?.status === 'number' && err.status < 500 && err.expose) {
+    if (err.type === 'entity.parse.failed') {
+      return new BadRequestError('Request body is not valid JSON', 'invalid_json');
+    }
+    const code = typeof err.type === 'string' ? err.type.replace(/\./g, '_') : 'bad_request';
+    return new AppError(err.status, code, (error as Error).message);
+  }
+
+  return new AppError(500, 'internal_error', 'Internal server error');
+};
+
+export const notFoundHandler = (req: Request, res: Response, next: NextFunction) => {
+  next(new NotFoundError(`Route ${req.method} ${req.path} not found`, 'route_not_found'));
+};
+
+// Registered last in app.ts; Express 5 forwards rejected async handlers here
+export const errorHandler = (error: unknown, req: AuthRequest, res: Response, next: NextFunction) => {
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  const appError = toAppError(error);
+  const requestId = res.locals.request_id;
+
+  if (appError.status >= 500) {
+    logger.error('request failed', {
+      request_id: requestId,
+      method: req.method,
+      path: req.originalUrl.split('?')[0],
+      user_id: req.user?.id ?? null,
+      error,
+    });
+  }
+
+  res.status(appError.status).json({
+    error: appError.message,
+    code: appError.code,
+    ...appError.details,
+    request_id: requestId,
+  });
+};
@@ -0,0 +1,36 @@
+// src/middleware/requestContext.ts
+import crypto from 'crypto';
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth';
+import { logger } from '../utils/logger';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Clients (e.g. the mobile app) may send their own ID so both sides log the same value
+const isValidRequestId = (id: unknown): id is string => {
+  return typeof id === 'string' && /^[\w.:-]{1,128}$/.test(id);
+};
+
+// Tag the request with an ID, echo it in the response and write one access log line when it finishes
+export const requestContext = (req: AuthRequest, res: Response, next: NextFunction) => {
+  const started = process.hrtime.bigint();
+  const header = req.get(REQUEST_ID_HEADER);
+  const requestId = isValidRequestId(header) ? header : crypto.randomUUID();
+
+  res.locals.request_id = requestId;
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+
+  res.on('finish', () => {
+    logger.info('request completed', {
+      request_id: requestId,
+      method: req.method,
+      path: req.originalUrl.split('?')[0],
+      status: res.statusCode,
+      duration_ms: Math.round(Number(process.hrtime.bigint() - started) / 1e5) / 10,
+      // Set by authenticateUser on authenticated routes
+      user_id: req.user?.id ?? null,
+    });
+  });
+
+  next();
+};
@@ -0,0 +1,58 @@
+// src/middleware/validate.ts
+import { RequestHandler } from 'express';
+import { ParamsDictionary } from 'express-serve-static-core';
+import { ParsedQs } from 'qs';
+import { AuthRequest } from './auth';
+import { ValidationError } from '../errors';
+import { FieldErrors, Infer, Validator, parse } from '../validation/schema';
+
+export interface RequestSchemas {
+  params?: Validator<unknown>;
+  body?: Validator<unknown>;
+  query?: Validator<unknown>;
+}
+
+type Parsed<V, Fallback> = V extends Validator<unknown> ? Infer<V> : Fallback;
+
+// Request type for a handler behind validate(schemas)
+export type ValidatedRequest<S extends RequestSchemas> = AuthRequest<
+  Parsed<S['params'], ParamsDictionary>,
+  Parsed<S['body'], unknown>,
+  Parsed<S['query'], ParsedQs>
+>;
+
+// Validate params, body and query. Handlers receive the parsed values (unknown keys dropped,
+// defaults applied, numbers coerced); anything invalid becomes a ValidationError listing each field.
+export const validate = <S extends RequestSchemas>(schemas: S): RequestHandler<
+  Parsed<S['params'], ParamsDictionary>,
+  unknown,
+  Parsed<S['body'], unknown>,
+  Parsed<S['query'], ParsedQs>
+> => (req, res, next) => {
+  const fields: FieldErrors = {};
+  const parsed: Partial<Record<keyof RequestSchemas, unknown>> = {};
+
+  for (const location of ['params', 'body', 'query'] as const) {
+    const validator = schemas[location];
+    if (!validator) continue;
+
+    // A request without a JSON body has no req.body at all
+    const result = parse(validator, req[location] ?? {}, location);
+    if (result.ok) {
+      parsed[location] = result.value;
+    } else {
+      Object.assign(fields, result.errors);
+    }
+  }
+
+  if (Object.keys(fields).length > 0) {
+    return next(new ValidationError(fields));
+  }
+
+  if ('params' in parsed) req.params = parsed.params as Parsed<S['params'], ParamsDictionary>;
+  if ('body' in parsed) req.body = parsed.body as Parsed<S['body'], unknown>;
+  // req.query is a getter in Express 5, so shadow it on the request itself
+  if ('query' in parsed) Object.defineProperty(req, 'query', { value: parsed.query, writable: true });
+
+  next();
+};
@@ -0,0 +1,721 @@
+// src/repositories/memory.ts
+// In-memory repositories and auth for HTTP tests and local development.
+// Behaviour mirrors the Supabase queries, including ordering and ownership rules.
+import crypto from 'crypto';
+import {
+  AccountDeletion,
+  AuthProvider,
+  AuthUser,
+  ChangeWindow,
+  Drink,
+  DrinkFields,
+  DrinkSubmission,
+  IntakeLog,
+  IntakeLogDeletion,
+  IntakeLogWithDrink,
+  NewIntakeLog,
+  Repositories,
+  Routine,
+  UserProfile,
+} from './types';
+
+const EMPTY_PROFILE: Omit<UserProfile, 'id'> = {
+  email: null,
+  role: 'user',
+  daily_caffeine_limit: null,
+  strict_limit_mode: false,
+  caffeine_half_life_hours: null,
+  timezone: null,
+  body_weight_kg: null,
+  pregnancy_status: null,
+  caffeine_sensitivity: null,
+  medications: null,
+  stripe_customer_id: null,
+  subscription_id: null,
+  subscription_status: 'inactive',
+  subscription_expires_at: null,
+  subscription_event_at: null,
+  subscription_plan: null,
+  trial_used: false,
+};
+
+// Case-insensitive name and brand match, like ILIKE without wildcards
+const sameNameAndBrand = (a: Pick<DrinkFields, 'name' | 'brand'>, b: Pick<DrinkFields, 'name' | 'brand'>) =>
+  a.name.toLowerCase() === b.name.toLowerCase() && a.brand?.toLowerCase() === b.brand?.toLowerCase();
+
+// Keyset comparison used by the changes feeds: whether a row falls inside the window
+const inWindow = (row: { changed_at: string; id: string }, { after, until }: ChangeWindow) =>
+  row.changed_at <= until && (
+    !after ||
+    row.changed_at > after.changed_at ||
+    (row.changed_at === after.changed_at && after.id !== null && row.id > after.id)
+  );
+
+const byChange = (a: { changed_at: string; id: string }, b: { changed_at: string; id: string }) =>
+  a.changed_at.localeCompare(b.changed_at) || a.id.localeCompare(b.id);
+
+// PostgREST drops undefined keys from JSON bodies; mirror that on updates
+const defined = <T extends object>(fields: T): Partial<T> => {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as Partial<T>;
+};
+
+export interface InMemoryRepositories extends Repositories {
+  readonly store: {
+    accountDeletions: Map<string, AccountDeletion>;
+    drinks: Map<string, Drink>;
+    // user ID -> drink ID -> favorited at
+    favorites: Map<string, Map<string, string>>;
+    intakeLogs: Map<string, IntakeLog>;
+    intakeLogDeletions: Map<string, IntakeLogDeletion & { user_id: string }>;
+    profiles: Map<string, UserProfile>;
+    routines: Map<string, Routine>;
+    submissions: Map<string, DrinkSubmission>;
+    webhookEvents: Set<string>;
+  };
+}
+
+export const createInMemoryRepositories = (
+  seed: { drinks?: Drink[]; profiles?: UserProfile[] } = {}
+): InMemoryRepositories => {
+  const accountDeletions = new Map<string, AccountDeletion>();
+  const drinks = new Map((seed.drinks ?? []).map((drink) => [drink.id, { ...drink }]));
+  const favorites = new Map<string, Map<string, string>>();
+  const intakeLogs = new Map<string, IntakeLog>();
+  const intakeLogDeletions = new Map<string, IntakeLogDeletion & { user_id: string }>();
+  const profiles = new Map((seed.profiles ?? []).map((profile) => [profile.id, { ...profile }]));
+  const routines = new Map<string, Routine>();
+  const submissions = new Map<string, DrinkSubmission>();
+  const webhookEvents = new Set<string>();
+
+  const withDrink = (log: IntakeLog): IntakeLogWithDrink => {
+    const drink = drinks.get(log.drink_id);
+    return {
+      ...log,
+      drinks: drink
+        ? {
+          id: drink.id,
+          name: drink.name,
+          caffeine_per_serving: drink.caffeine_per_serving,
+          category: drink.category,
+          brand: drink.brand,
+          serving_size: drink.serving_size,
+          caffeine_per_100ml: drink.caffeine_per_100ml,
+          sizes: drink.sizes,
+          archived_at: drink.archived_at,
+        }
+        : null,
+    };
+  };
+
+  const logsOf = (userId: string) => [...intakeLogs.values()].filter((log) => log.user_id === userId);
+  const loggedOf = (userId: string) => logsOf(userId).filter((log) => log.status === 'logged');
+  const insertLog = (log: NewIntakeLog): IntakeLog => {
+    const created: IntakeLog = { id: crypto.randomUUID(), ...log, updated_at: new Date().toISOString() };
+    intakeLogs.set(created.id, created);
+    return created;
+  };
+  const byConsumedAt = (a: IntakeLog, b: IntakeLog) => a.consumed_at.localeCompare(b.consumed_at);
+  const newestFirst = (a: IntakeLog, b: IntakeLog) =>
+    b.consumed_at.localeCompare(a.consumed_at) || b.id.localeCompare(a.id);
+
+  const isVisible = (drink: Drink, userId: string) =>
+    (drink.user_id === null || drink.user_id === userId) && drink.archived_at === null;
+  const byCategoryThenName = (a: Drink, b: Drink) =>
+    a.category.localeCompare(b.category) || a.name.localeCompare(b.name);
+
+  const ownCustom = (userId: string, id: string, archived: boolean) => {
+    const drink = drinks.get(id);
+    return drink && drink.user_id === userId && drink.is_custom && (drink.archived_at !== null) === archived
+      ? drink
+      : null;
+  };
+
+  return {
+    store: { accountDeletions, drinks, favorites, intakeLogs, intakeLogDeletions, profiles, routines, submissions, webhookEvents },
+
+    accountDeletions: {
+      async create(deletion) {
+        const open = [...accountDeletions.values()].some(
+          (existing) => existing.user_id === deletion.user_id && ['scheduled', 'processing'].includes(existing.status)
+        );
+        if (open) {
+          return null;
+        }
+
+        const created: AccountDeletion = {
+          id: crypto.randomUUID(),
+          ...deletion,
+          status: 'scheduled',
+          requested_at: new Date().toISOString(),
+          cancelled_at: null,
+          completed_at: null,
+          summary: null,
+          last_error: null,
+        };
+        accountDeletions.set(created.id, created);
+        return created;
+      },
+
+      async findLatestForUser(userId) {
+        return [...accountDeletions.values()]
+          .filter((deletion) => deletion.user_id === userId)
+          .reverse()
+          .sort((a, b) => b.requested_at.localeCompare(a.requested_at))[0] ?? null;
+      },
+
+      async listDue(now, limit) {
+        return [...accountDeletions.values()]
+          .filter((deletion) => deletion.status === 'scheduled' && deletion.scheduled_for <= now)
+          .sort((a, b) => a.scheduled_for.localeCompare(b.scheduled_for))
+          .slice(0, limit);
+      },
+
+      async listByStatus(status, { limit, offset }) {
+        const matches = [...accountDeletions.values()]
+          .filter((deletion) => deletion.status === status)
+          .reverse()
+          .sort((a, b) => b.requested_at.localeCompare(a.requested_at));
+
+        return { deletions: matches.slice(offset, offset + limit), total: matches.length };
+      },
+
+      async update(id, fields, options = {}) {
+        const deletion = accountDeletions.get(id);
+        if (!deletion || (options.ifStatus && deletion.status !== options.ifStatus)) {
+          return null;
+        }
+        Object.assign(deletion, defined(fields));
+        return deletion;
+      },
+    },
+
+    drinks: {
+      async listVisible(userId) {
+        return [...drinks.values()]
+          .filter((drink) => isVisible(drink, userId))
+          .sort((a, b) => a.category.localeCompare(b.category));
+      },
+
+      async listArchived(userId) {
+        return [...drinks.values()]
+          .filter((drink) => drink.user_id === userId && drink.is_custom && drink.archived_at !== null)
+          .sort((a, b) => b.archived_at!.localeCompare(a.archived_at!));
+      },
+
+      async search(userId, { query, category, limit, offset }) {
+        const term = query?.toLowerCase();
+        const matches = [...drinks.values()]
+          .filter((drink) => isVisible(drink, userId))
+          .filter((drink) => !category || drink.category === category)
+          .filter((drink) => !term ||
+            drink.name.toLowerCase().includes(term) ||
+            (drink.brand ?? '').toLowerCase().includes(term))
+          .sort(byCategoryThenName);
+
+        return { drinks: matches.slice(offset, offset + limit), total: matches.length };
+      },
+
+      async findCatalogDuplicates(fields) {
+        return [...drinks.values()].filter((drink) =>
+          drink.user_id === null &&
+          drink.archived_at === null &&
+          (sameNameAndBrand(drink, fields) || (!!fields.barcode && drink.barcode === fields.barcode))
+        );
+      },
+
+      async findByShareToken(token) {
+        return [...drinks.values()].find((drink) =>
+          drink.share_token === token && drink.is_custom && drink.archived_at === null
+        ) ?? null;
+      },
+
+      async setShareToken(userId, id, token) {
+        const drink = ownCustom(userId, id, false);
+        if (!drink) {
+          return null;
+        }
+        drink.share_token = token;
+        drink.updated_at = new Date().toISOString();
+        return drink;
+      },
+
+      async createCatalog(fields) {
+        const drink: Drink = {
+          id: crypto.randomUUID(),
+          ...fields,
+          is_custom: false,
+          user_id: null,
+          archived_at: null,
+          share_token: null,
+          updated_at: new Date().toISOString(),
+        };
+        drinks.set(drink.id, drink);
+        return drink;
+      },
+
+      async findVisible(userId, id) {
+        const drink = drinks.get(id);
+        return drink && isVisible(drink, userId) ? drink : null;
+      },
+
+      async findVisibleByIds(userId, ids) {
+        return ids
+          .map((id) => drinks.get(id))
+          .filter((drink): drink is Drink => !!drink && isVisible(drink, userId));
+      },
+
+      async findByBarcode(userId, barcode) {
+        const matches = [...drinks.values()].filter((drink) => drink.barcode === barcode && isVisible(drink, userId));
+        return matches.find((drink) => drink.user_id === userId) ?? matches[0] ?? null;
+      },
+
+      async countCustom(userId) {
+        return [...drinks.values()]
+          .filter((drink) => drink.user_id === userId && drink.is_custom && drink.archived_at === null)
+          .length;
+      },
+
+      async createCustom(userId, fields) {
+        const drink: Drink = {
+          id: crypto.randomUUID(),
+          ...fields,
+          is_custom: true,
+          user_id: userId,
+          archived_at: null,
+          share_token: null,
+          updated_at: new Date().toISOString(),
+        };
+        drinks.set(drink.id, drink);
+        return drink;
+      },
+
+      async updateCustom(userId, id, fields) {
+        const drink = ownCustom(userId, id, false);
+        if (!drink) {
+          return null;
+        }
+        Object.assign(drink, defined(fields), { updated_at: new Date().toISOString() });
+        return drink;
+      },
+
+      async archiveCustom(userId, id) {
+        const drink = ownCustom(userId, id, false);
+        if (!drink) {
+          return null;
+        }
+        drink.archived_at = new Date().toISOString();
+        drink.updated_at = drink.archived_at;
+        return drink;
+      },
+
+      async restoreCustom(userId, id) {
+        const drink = ownCustom(userId, id, true);
+        if (!drink) {
+          return null;
+        }
+        drink.archived_at = null;
+        drink.updated_at = new Date().toISOString();
+        return drink;
+      },
+
+      async deleteCustom(userId, ids) {
+        let deleted = 0;
+        for (const id of ids) {
+          const drink = drinks.get(id);
+          if (drink?.user_id === userId && drink.is_custom) {
+            drinks.delete(id);
+            deleted += 1;
+          }
+        }
+        return deleted;
+      },
+
+      async deleteAllCustom(userId) {
+        let deleted = 0;
+        for (const drink of [...drinks.values()]) {
+          if (drink.user_id === userId && drink.is_custom) {
+            drinks.delete(drink.id);
+            deleted += 1;
+          }
+        }
+        return deleted;
+      },
+
+      async listChanged(userId, window) {
+        return [...drinks.values()]
+          .filter((drink) => drink.user_id === null || drink.user_id === userId)
+          .filter((drink) => inWindow({ changed_at: drink.updated_at, id: drink.id }, window))
+          .sort((a, b) => byChange({ changed_at: a.updated_at, id: a.id }, { changed_at: b.updated_at, id: b.id }))
+          .slice(0, window.limit);
+      },
+    },
+
+    favorites: {
+      async listDrinkIds(userId) {
+        // Reversed first so same-millisecond ties still come out newest first
+        return [...(favorites.get(userId) ?? new Map<string, string>())].reverse()
+          .sort(([, a], [, b]) => b.localeCompare(a))
+          .map(([drinkId]) => drinkId);
+      },
+
+      async add(userId, drinkId) {
+        const userFavorites = favorites.get(userId) ?? new Map<string, string>();
+        if (!userFavorites.has(drinkId)) {
+          userFavorites.set(drinkId, new Date().toISOString());
+        }
+        favorites.set(userId, userFavorites);
+      },
+
+      async remove(userId, drinkId) {
+        favorites.get(userId)?.delete(drinkId);
+      },
+
+      async removeAll(userId) {
+        const removed = favorites.get(userId)?.size ?? 0;
+        favorites.delete(userId);
+        return removed;
+      },
+    },
+
+    intake: {
+      async create(log) {
+        return withDrink(insertLog(log));
+      },
+
+      async createMany(logs) {
+        return logs.map(insertLog);
+      },
+
+      async createManyIfNew(logs) {
+        const taken = new Set([...intakeLogs.values()].map((log) => `${log.user_id}|${log.client_id}`));
+        return logs
+          .filter((log) => {
+            const key = `${log.user_id}|${log.client_id}`;
+            if (log.client_id !== null && taken.has(key)) {
+              return false;
+            }
+            taken.add(key);
+            return true;
+          })
+          .map(insertLog);
+      },
+
+      async findByClientIds(userId, clientIds) {
+        return logsOf(userId).filter((log) => log.client_id !== null && clientIds.includes(log.client_id));
+      },
+
+      async findById(userId, id) {
+        const log = intakeLogs.get(id);
+        return log && log.user_id === userId ? withDrink(log) : null;
+      },
+
+      async update(userId, id, fields, options = {}) {
+        const log = intakeLogs.get(id);
+        if (!log || log.user_id !== userId || (options.ifStatus && log.status !== options.ifStatus)) {
+          return null;
+        }
+        Object.assign(log, defined(fields), { updated_at: new Date().toISOString() });
+        return log;
+      },
+
+      async delete(userId, id) {
+        if (intakeLogs.get(id)?.user_id !== userId) {
+          return false;
+        }
+        intakeLogs.delete(id);
+        intakeLogDeletions.set(id, { id, user_id: userId, deleted_at: new Date().toISOString() });
+        return true;
+      },
+
+      async listForDay(userId, date) {
+        return loggedOf(userId)
+          .filter((log) => log.date === date)
+          .sort(newestFirst)
+          .map(withDrink);
+      },
+
+      async listForDays(userId, from, to) {
+        return loggedOf(userId)
+          .filter((log) => log.date >= from && log.date <= to)
+          .sort(byConsumedAt);
+      },
+
+      async listConsumedBetween(userId, from, to) {
+        const start = new Date(from).getTime();
+        const end = new Date(to).getTime();
+        return loggedOf(userId)
+          .filter((log) => {
+            const consumedAt = new Date(log.consumed_at).getTime();
+            return consumedAt >= start && consumedAt <= end;
+          })
+          .sort(byConsumedAt);
+      },
+
+      async page(userId, { from, to, cursor, limit }) {
+        return loggedOf(userId)
+          .filter((log) => log.date >= from && log.date <= to)
+          .filter((log) => !cursor || newestFirst(log, { ...log, ...cursor }) > 0)
+          .sort(newestFirst)
+          .slice(0, limit)
+          .map(withDrink);
+      },
+
+      async listAll(userId) {
+        return logsOf(userId);
+      },
+
+      async listPending(userId) {
+        return logsOf(userId)
+          .filter((log) => log.status === 'pending')
+          .sort(newestFirst)
+          .map(withDrink);
+      },
+
+      async listWithDrinks(userId, { from, to }) {
+        return loggedOf(userId)
+          .filter((log) => (!from || log.date >= from) && (!to || log.date <= to))
+          .sort(byConsumedAt)
+          .map(withDrink);
+      },
+
+      async setDate(userId, ids, date) {
+        for (const id of ids) {
+          const log = intakeLogs.get(id);
+          if (log && log.user_id === userId) {
+            log.date = date;
+            log.updated_at = new Date().toISOString();
+          }
+        }
+      },
+
+      async deleteAll(userId) {
+        const logs = logsOf(userId);
+        for (const log of logs) {
+          intakeLogs.delete(log.id);
+        }
+        for (const deletion of [...intakeLogDeletions.values()]) {
+          if (deletion.user_id === userId) {
+            intakeLogDeletions.delete(deletion.id);
+          }
+        }
+        return logs.length;
+      },
+
+      async listChanged(userId, { fromDate, ...window }) {
+        return logsOf(userId)
+          .filter((log) => !fromDate || log.date >= fromDate)
+          .filter((log) => inWindow({ changed_at: log.updated_at, id: log.id }, window))
+          .sort((a, b) => byChange({ changed_at: a.updated_at, id: a.id }, { changed_at: b.updated_at, id: b.id }))
+          .slice(0, window.limit)
+          .map(withDrink);
+      },
+
+      async listDeleted(userId, window) {
+        return [...intakeLogDeletions.values()]
+          .filter((deletion) => deletion.user_id === userId)
+          .filter((deletion) => inWindow({ changed_at: deletion.deleted_at, id: deletion.id }, window))
+          .sort((a, b) => byChange({ changed_at: a.deleted_at, id: a.id }, { changed_at: b.deleted_at, id: b.id }))
+          .slice(0, window.limit)
+          .map(({ id, deleted_at }) => ({ id, deleted_at }));
+      },
+    },
+
+    profiles: {
+      async findById(id) {
+        return profiles.get(id) ?? null;
+      },
+
+      async findByStripeCustomerId(customerId) {
+        return [...profiles.values()].find((profile) => profile.stripe_customer_id === customerId) ?? null;
+      },
+
+      async upsert(id, fields) {
+        const profile = { ...EMPTY_PROFILE, ...profiles.get(id), ...defined(fields), id };
+        profiles.set(id, profile);
+        return profile;
+      },
+
+      async update(id, fields, options = {}) {
+        const profile = profiles.get(id);
+        if (!profile) {
+          return null;
+        }
+        if (
+          options.ifEventNotAfter &&
+          profile.subscription_event_at &&
+          profile.subscription_event_at > options.ifEventNotAfter
+        ) {
+          return null;
+        }
+        Object.assign(profile, defined(fields));
+        return profile;
+      },
+
+      async delete(id) {
+        profiles.delete(id);
+      },
+    },
+
+    routines: {
+      async list(userId) {
+        return [...routines.values()]
+          .filter((routine) => routine.user_id === userId)
+          .sort((a, b) => a.name.localeCompare(b.name));
+      },
+
+      async findById(userId, id) {
+        const routine = routines.get(id);
+        return routine && routine.user_id === userId ? routine : null;
+      },
+
+      async count(userId) {
+        return [...routines.values()].filter((routine) => routine.user_id === userId).length;
+      },
+
+      async create(userId, fields) {
+        const routine: Routine = {
+          id: crypto.randomUUID(),
+          user_id: userId,
+          ...fields,
+          created_at: new Date().toISOString(),
+        };
+        routines.set(routine.id, routine);
+        return routine;
+      },
+
+      async update(userId, id, fields) {
+        const routine = routines.get(id);
+        if (!routine || routine.user_id !== userId) {
+          return null;
+        }
+        Object.assign(routine, defined(fields));
+        return routine;
+      },
+
+      async delete(userId, id) {
+        const routine = routines.get(id);
+        if (!routine || routine.user_id !== userId) {
+          return null;
+        }
+        routines.delete(id);
+        return routine;
+      },
+
+      async deleteAll(userId) {
+        let deleted = 0;
+        for (const routine of [...routines.values()]) {
+          if (routine.user_id === userId) {
+            routines.delete(routine.id);
+            deleted += 1;
+          }
+        }
+        return deleted;
+      },
+
+      async listAutoLogged() {
+        return [...routines.values()].filter((routine) => routine.auto_log);
+      },
+    },
+
+    submissions: {
+      async create(submission) {
+        const created: DrinkSubmission = {
+          id: crypto.randomUUID(),
+          ...submission,
+          status: 'pending',
+          rejection_reason: null,
+          reviewed_by: null,
+          reviewed_at: null,
+          catalog_drink_id: null,
+          created_at: new Date().toISOString(),
+        };
+        submissions.set(created.id, created);
+        return created;
+      },
+
+      async findById(id) {
+        return submissions.get(id) ?? null;
+      },
+
+      async listForUser(userId) {
+        return [...submissions.values()]
+          .filter((submission) => submission.user_id === userId)
+          .reverse()
+          .sort((a, b) => b.created_at.localeCompare(a.created_at));
+      },
+
+      async listByStatus(status, { limit, offset }) {
+        const matches = [...submissions.values()]
+          .filter((submission) => submission.status === status)
+          .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+        return { submissions: matches.slice(offset, offset + limit), total: matches.length };
+      },
+
+      async findPendingDuplicate(fields) {
+        return [...submissions.values()].find((submission) =>
+          submission.status === 'pending' && sameNameAndBrand(submission, fields)
+        ) ?? null;
+      },
+
+      async update(id, fields, options = {}) {
+        const submission = submissions.get(id);
+        if (!submission || (options.ifStatus && submission.status !== options.ifStatus)) {
+          return null;
+        }
+        Object.assign(submission, defined(fields));
+        return submission;
+      },
+
+      async deleteForUser(userId) {
+        let deleted = 0;
+        for (const submission of [...submissions.values()]) {
+          if (submission.user_id === userId) {
+            submissions.delete(submission.id);
+            deleted += 1;
+          }
+        }
+        return deleted;
+      },
+    },
+
+    webhookEvents: {
+      async claim(event) {
+        if (webhookEvents.has(event.id)) {
+          return false;
+        }
+        webhookEvents.add(event.id);
+        return true;
+      },
+
+      async release(id) {
+        webhookEvents.delete(id);
+      },
+    },
+  };
+};
+
+// Tokens are registered up front; anything else is rejected
+export const createInMemoryAuthProvider = (users: Record<string, AuthUser> = {}): AuthProvider & {
+  addUser(token: string, user: AuthUser): void;
+} => {
+  const tokens = new Map(Object.entries(users));
+
+  return {
+    addUser(token, user) {
+      tokens.set(token, user);
+    },
+
+    async getUser(token) {
+      return tokens.get(token) ?? null;
+    },
+
+    async deleteUser(id) {
+      for (const [token, user] of [...tokens]) {
+        if (user.id === id) {
+          tokens.delete(token);
+        }
+      }
+    },
+  };
+};
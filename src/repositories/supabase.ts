@@ -0,0 +1,994 @@
+// src/repositories/supabase.ts
+// Repositories backed by Supabase (PostgREST).
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AuthProvider, ChangeCursor, IntakeLogWithDrink, Repositories } from './types';
+
+const LOG_WITH_DRINK_SELECT = `
+  *,
+  drinks:drink_id (
+    id,
+    name,
+    caffeine_per_serving,
+    category,
+    brand,
+    serving_size,
+    caffeine_per_100ml,
+    sizes,
+    archived_at
+  )
+`;
+
+// PostgREST filter values can't safely carry its own syntax (commas, parentheses, quotes)
+// or LIKE wildcards, so search terms are reduced to plain text
+const searchTerm = (query: string) => query.replace(/[%_*,()"\\]/g, ' ').trim();
+
+// ILIKE without wildcards: a case-insensitive equality match
+const exactPattern = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+// Change times are stamped here rather than by the database, so every row in a changes feed
+// is ordered by the same clock
+const stamp = () => new Date().toISOString();
+
+// Keyset filter for the changes feeds: rows after the cursor in (column, id) order
+const changedAfter = (column: string, after: ChangeCursor) => after.id === null
+  ? `${column}.gt."${after.changed_at}"`
+  : `${column}.gt."${after.changed_at}",and(${column}.eq."${after.changed_at}",id.gt."${after.id}")`;
+
+export const createSupabaseRepositories = (supabase: SupabaseClient): Repositories => ({
+  accountDeletions: {
+    async create(deletion) {
+      const { data, error } = await supabase
+        .from('account_deletions')
+        .insert(deletion)
+        .select()
+        .single();
+
+      if (error) {
+        // Unique violation: a concurrent request scheduled the user's deletion first
+        if (error.code === '23505') {
+          return null;
+        }
+        throw error;
+      }
+      return data;
+    },
+
+    async findLatestForUser(userId) {
+      const { data, error } = await supabase
+        .from('account_deletions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('requested_at', { ascending: false })
+        .limit(1);
+
+      if (error) throw error;
+      return data[0] ?? null;
+    },
+
+    async listDue(now, limit) {
+      const { data, error } = await supabase
+        .from('account_deletions')
+        .select('*')
+        .eq('status', 'scheduled')
+        .lte('scheduled_for', now)
+        .order('scheduled_for', { ascending: true })
+        .limit(limit);
+
+      if (error) throw error;
+      return data;
+    },
+
+    async listByStatus(status, { limit, offset }) {
+      const { data, count, error } = await supabase
+        .from('account_deletions')
+        .select('*', { count: 'exact' })
+        .eq('status', status)
+        .order('requested_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) throw error;
+      return { deletions: data, total: count ?? 0 };
+    },
+
+    async update(id, fields, options = {}) {
+      let query = supabase
+        .from('account_deletions')
+        .update(fields)
+        .eq('id', id);
+
+      if (options.ifStatus) {
+        query = query.eq('status', options.ifStatus);
+      }
+
+      const { data, error } = await query.select().maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  },
+
+  drinks: {
+    async listVisible(userId) {
+      const { data, error } = await supabase
+        .from('drinks')
+        .select('*')
+        .or(`user_id.is.null,user_id.eq.${userId}`)
+        .is('archived_at', null)
+        .order('category', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+
+    async listArchived(userId) {
+      const { data, error } = await supabase
+        .from('drinks')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('is_custom', true)
+        .not('archived_at', 'is', null)
+        .order('archived_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+
+    async search(userId, { query, category, limit, offset }) {
+      let request = supabase
+        .from('drinks')
+        .select('*', { count: 'exact' })
+        .or(`user_id.is.null,user_id.eq.${userId}`)
+        .is('archived_at', null);
+
+      const term = query ? searchTerm(query) : '';
+      if (term) {
+        request = request.or(`name.ilike."%${term}%",brand.ilike."%${term}%"`);
+      }
+      if (category) {
+        request = request.eq('category', category);
+      }
+
+      const { data, count, error } = await request
+        .order('category', { ascending: true })
+        .order('name', { ascending: true })
+        .range(offset, offset + limit - 1);
+
+      if (error) throw error;
+      return { drinks: data, total: count ?? 0 };
+    },
+
+    async findVisibleByIds(userId, ids) {
+      if (ids.length === 0) {
+        return [];
+      }
+
+      const { data, error } = await supabase
+        .from('drinks')
+        .select('*')
+        .in('id', ids)
+        .or(`user_id.is.null,user_id.eq.${userId}`)
+        .is('archived_at', null);
+
+      if (error) throw error;
+      return data;
+    },
+
+    async findByBarcode(userId, barcode) {
+      const { data, error } = await supabase
+        .from('drinks')
+        .select('*')
+        .eq('barcode', barcode)
+        .or(`user_id.is.null,user_id.eq.${userId}`)
+        .is('archived_at', null)
+        // NULLs sort first in descending order, so put the catalog last explicitly
+        .order('user_id', { ascending: false, nullsFirst: false })
+        .limit(1);
+
+      if (error) throw error;
+      return data[0] ?? null;
+    },
+
+    async findCatalogDuplicates({ name, brand, barcode }) {
+      let byName = supabase
+        .from('drinks')
+        .select('*')
+        .is('user_id', null)
+        .is('archived_at', null)
+        .ilike('name', exactPattern(name));
+
+      byName = brand === null ? byName.is('brand', null) : byName.ilike('brand', exactPattern(brand));
+
+      const { data, error } = await byName;
+      if (error) throw error;
+
+      if (!barcode) {
+        return data;
+      }
+
+      const { data: byBarcode, error: barcodeError } = await supabase
+        .from('drinks')
+        .select('*')
+        .is('user_id', null)
+        .is('archived_at', null)
+        .eq('barcode', barcode);
+
+      if (barcodeError) throw barcodeError;
+      return [...data, ...byBarcode.filter((drink) => !data.some((match) => match.id === drink.id))];
+    },
+
+    async findByShareToken(token) {
+      const { data, error } = await supabase
+        .from('drinks')
+        .select('*')
+        .eq('share_token', token)
+        .eq('is_custom', true)
+        .is('archived_at', null)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async setShareToken(userId, id, token) {
+      const { data, error } = await supabase
+        .from('drinks')
+        .update({ share_token: token, updated_at: stamp() })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .eq('is_custom', true)
+        .is('archived_at', null)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async createCatalog(fields) {
+      const { data, error } = await supabase
+        .from('drinks')
+        .insert({ ...fields, is_custom: false, user_id: null, updated_at: stamp() })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async findVisible(userId, id) {
+      const { data, error } = await supabase
+        .from('drinks')
+        .select('*')
+        .eq('id', id)
+        .or(`user_id.is.null,user_id.eq.${userId}`)
+        .is('archived_at', null)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async countCustom(userId) {
+      const { count, error } = await supabase
+        .from('drinks')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('is_custom', true)
+        .is('archived_at', null);
+
+      if (error) throw error;
+      return count ?? 0;
+    },
+
+    async createCustom(userId, fields) {
+      const { data, error } = await supabase
+        .from('drinks')
+        .insert({ ...fields, is_custom: true, user_id: userId, updated_at: stamp() })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async updateCustom(userId, id, fields) {
+      const { data, error } = await supabase
+        .from('drinks')
+        .update({ ...fields, updated_at: stamp() })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .eq('is_custom', true)
+        .is('archived_at', null)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async archiveCustom(userId, id) {
+      const { data, error } = await supabase
+        .from('drinks')
+        .update({ archived_at: stamp(), updated_at: stamp() })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .eq('is_custom', true)
+        .is('archived_at', null)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async restoreCustom(userId, id) {
+      const { data, error } = await supabase
+        .from('drinks')
+        .update({ archived_at: null, updated_at: stamp() })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .eq('is_custom', true)
+        .not('archived_at', 'is', null)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async deleteCustom(userId, ids) {
+      const { count, error } = await supabase
+        .from('drinks')
+        .delete({ count: 'exact' })
+        .eq('user_id', userId)
+        .eq('is_custom', true)
+        .in('id', ids);
+
+      if (error) throw error;
+      return count ?? 0;
+    },
+
+    async deleteAllCustom(userId) {
+      const { count, error } = await supabase
+        .from('drinks')
+        .delete({ count: 'exact' })
+        .eq('user_id', userId)
+        .eq('is_custom', true);
+
+      if (error) throw error;
+      return count ?? 0;
+    },
+
+    async listChanged(userId, { after, until, limit }) {
+      let query = supabase
+        .from('drinks')
+        .select('*')
+        .or(`user_id.is.null,user_id.eq.${userId}`)
+        .lte('updated_at', until);
+
+      if (after) {
+        query = query.or(changedAfter('updated_at', after));
+      }
+
+      const { data, error } = await query
+        .order('updated_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(limit);
+
+      if (error) throw error;
+      return data;
+    },
+  },
+
+  favorites: {
+    async listDrinkIds(userId) {
+      const { data, error } = await supabase
+        .from('drink_favorites')
+        .select('drink_id')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data.map((favorite) => favorite.drink_id);
+    },
+
+    async add(userId, drinkId) {
+      const { error } = await supabase
+        .from('drink_favorites')
+        .upsert({ user_id: userId, drink_id: drinkId }, { onConflict: 'user_id,drink_id', ignoreDuplicates: true });
+
+      if (error) throw error;
+    },
+
+    async remove(userId, drinkId) {
+      const { error } = await supabase
+        .from('drink_favorites')
+        .delete()
+        .eq('user_id', userId)
+        .eq('drink_id', drinkId);
+
+      if (error) throw error;
+    },
+
+    async removeAll(userId) {
+      const { count, error } = await supabase
+        .from('drink_favorites')
+        .delete({ count: 'exact' })
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      return count ?? 0;
+    },
+  },
+
+  intake: {
+    async create(log) {
+      const { data, error } = await supabase
+        .from('intake_logs')
+        .insert({ ...log, updated_at: stamp() })
+        .select(LOG_WITH_DRINK_SELECT)
+        .single();
+
+      if (error) throw error;
+      return data as IntakeLogWithDrink;
+    },
+
+    async createMany(logs) {
+      if (logs.length === 0) {
+        return [];
+      }
+
+      const updatedAt = stamp();
+      const { data, error } = await supabase
+        .from('intake_logs')
+        .insert(logs.map((log) => ({ ...log, updated_at: updatedAt })))
+        .select();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async createManyIfNew(logs) {
+      if (logs.length === 0) {
+        return [];
+      }
+
+      const updatedAt = stamp();
+      const { data, error } = await supabase
+        .from('intake_logs')
+        .upsert(
+          logs.map((log) => ({ ...log, updated_at: updatedAt })),
+          { onConflict: 'user_id,client_id', ignoreDuplicates: true }
+        )
+        .select();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async findByClientIds(userId, clientIds) {
+      if (clientIds.length === 0) {
+        return [];
+      }
+
+      const { data, error } = await supabase
+        .from('intake_logs')
+        .select('*')
+        .eq('user_id', userId)
+        .in('client_id', clientIds);
+
+      if (error) throw error;
+      return data;
+    },
+
+    async findById(userId, id) {
+      const { data, error } = await supabase
+        .from('intake_logs')
+        .select(LOG_WITH_DRINK_SELECT)
+        .eq('id', id)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as IntakeLogWithDrink | null;
+    },
+
+    async update(userId, id, fields, options = {}) {
+      let query = supabase
+        .from('intake_logs')
+        .update({ ...fields, updated_at: stamp() })
+        .eq('id', id)
+        .eq('user_id', userId);
+
+      if (options.ifStatus) {
+        query = query.eq('status', options.ifStatus);
+      }
+
+      const { data, error } = await query.select().maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async delete(userId, id) {
+      const { data, error } = await supabase
+        .from('intake_logs')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select('id');
+
+      if (error) throw error;
+      if (data.length === 0) {
+        return false;
+      }
+
+      const { error: recordError } = await supabase
+        .from('intake_log_deletions')
+        .insert({ id, user_id: userId, deleted_at: stamp() });
+
+      if (recordError) throw recordError;
+      return true;
+    },
+
+    async listForDay(userId, date) {
+      const { data, error } = await supabase
+        .from('intake_logs')
+        .select(LOG_WITH_DRINK_SELECT)
+        .eq('user_id', userId)
+        .eq('status', 'logged')
+        .eq('date', date)
+        .order('consumed_at', { ascending: false });
+
+      if (error) throw error;
+      return data as IntakeLogWithDrink[];
+    },
+
+    async listForDays(userId, from, to) {
+      const { data, error } = await supabase
+        .from('intake_logs')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('status', 'logged')
+        .gte('date', from)
+        .lte('date', to)
+        .order('consumed_at', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+
+    async listConsumedBetween(userId, from, to) {
+      const { data, error } = await supabase
+        .from('intake_logs')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('status', 'logged')
+        .gte('consumed_at', from)
+        .lte('consumed_at', to)
+        .order('consumed_at', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+
+    async page(userId, { from, to, cursor, limit }) {
+      let query = supabase
+        .from('intake_logs')
+        .select(LOG_WITH_DRINK_SELECT)
+        .eq('user_id', userId)
+        .eq('status', 'logged')
+        .gte('date', from)
+        .lte('date', to);
+
+      if (cursor) {
+        query = query.or(
+          `consumed_at.lt."${cursor.consumed_at}",and(consumed_at.eq."${cursor.consumed_at}",id.lt."${cursor.id}")`
+        );
+      }
+
+      const { data, error } = await query
+        .order('consumed_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data as IntakeLogWithDrink[];
+    },
+
+    async listAll(userId) {
+      const { data, error } = await supabase
+        .from('intake_logs')
+        .select('*')
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      return data;
+    },
+
+    async listPending(userId) {
+      const { data, error } = await supabase
+        .from('intake_logs')
+        .select(LOG_WITH_DRINK_SELECT)
+        .eq('user_id', userId)
+        .eq('status', 'pending')
+        .order('consumed_at', { ascending: false });
+
+      if (error) throw error;
+      return data as IntakeLogWithDrink[];
+    },
+
+    async listWithDrinks(userId, { from, to }) {
+      let query = supabase
+        .from('intake_logs')
+        .select(LOG_WITH_DRINK_SELECT)
+        .eq('user_id', userId)
+        .eq('status', 'logged');
+
+      if (from) {
+        query = query.gte('date', from);
+      }
+      if (to) {
+        query = query.lte('date', to);
+      }
+
+      const { data, error } = await query.order('consumed_at', { ascending: true });
+
+      if (error) throw error;
+      return data as IntakeLogWithDrink[];
+    },
+
+    async setDate(userId, ids, date) {
+      const { error } = await supabase
+        .from('intake_logs')
+        .update({ date, updated_at: stamp() })
+        .in('id', ids)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+    },
+
+    async deleteAll(userId) {
+      const { count, error } = await supabase
+        .from('intake_logs')
+        .delete({ count: 'exact' })
+        .eq('user_id', userId);
+
+      if (error) throw error;
+
+      const { error: deletionsError } = await supabase
+        .from('intake_log_deletions')
+        .delete()
+        .eq('user_id', userId);
+
+      if (deletionsError) throw deletionsError;
+      return count ?? 0;
+    },
+
+    async listChanged(userId, { after, until, limit, fromDate }) {
+      let query = supabase
+        .from('intake_logs')
+        .select(LOG_WITH_DRINK_SELECT)
+        .eq('user_id', userId)
+        .lte('updated_at', until);
+
+      if (after) {
+        query = query.or(changedAfter('updated_at', after));
+      }
+      if (fromDate) {
+        query = query.gte('date', fromDate);
+      }
+
+      const { data, error } = await query
+        .order('updated_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(limit);
+
+      if (error) throw error;
+      return data as IntakeLogWithDrink[];
+    },
+
+    async listDeleted(userId, { after, until, limit }) {
+      let query = supabase
+        .from('intake_log_deletions')
+        .select('id, deleted_at')
+        .eq('user_id', userId)
+        .lte('deleted_at', until);
+
+      if (after) {
+        query = query.or(changedAfter('deleted_at', after));
+      }
+
+      const { data, error } = await query
+        .order('deleted_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(limit);
+
+      if (error) throw error;
+      return data;
+    },
+  },
+
+  profiles: {
+    async findById(id) {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async findByStripeCustomerId(customerId) {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('*')
+        .eq('stripe_customer_id', customerId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async upsert(id, fields) {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .upsert({ id, ...fields })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async update(id, fields, options = {}) {
+      let query = supabase
+        .from('user_profiles')
+        .update(fields)
+        .eq('id', id);
+
+      if (options.ifEventNotAfter) {
+        query = query.or(`subscription_event_at.is.null,subscription_event_at.lte."${options.ifEventNotAfter}"`);
+      }
+
+      const { data, error } = await query.select().maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async delete(id) {
+      const { error } = await supabase
+        .from('user_profiles')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+  },
+
+  routines: {
+    async list(userId) {
+      const { data, error } = await supabase
+        .from('routines')
+        .select('*')
+        .eq('user_id', userId)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+
+    async findById(userId, id) {
+      const { data, error } = await supabase
+        .from('routines')
+        .select('*')
+        .eq('id', id)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async count(userId) {
+      const { count, error } = await supabase
+        .from('routines')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      return count ?? 0;
+    },
+
+    async create(userId, fields) {
+      const { data, error } = await supabase
+        .from('routines')
+        .insert({ ...fields, user_id: userId })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async update(userId, id, fields) {
+      const { data, error } = await supabase
+        .from('routines')
+        .update(fields)
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async delete(userId, id) {
+      const { data, error } = await supabase
+        .from('routines')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async deleteAll(userId) {
+      const { count, error } = await supabase
+        .from('routines')
+        .delete({ count: 'exact' })
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      return count ?? 0;
+    },
+
+    async listAutoLogged() {
+      const { data, error } = await supabase
+        .from('routines')
+        .select('*')
+        .eq('auto_log', true);
+
+      if (error) throw error;
+      return data;
+    },
+  },
+
+  submissions: {
+    async create(submission) {
+      const { data, error } = await supabase
+        .from('drink_submissions')
+        .insert(submission)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async findById(id) {
+      const { data, error } = await supabase
+        .from('drink_submissions')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async listForUser(userId) {
+      const { data, error } = await supabase
+        .from('drink_submissions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+
+    async listByStatus(status, { limit, offset }) {
+      const { data, count, error } = await supabase
+        .from('drink_submissions')
+        .select('*', { count: 'exact' })
+        .eq('status', status)
+        .order('created_at', { ascending: true })
+        .range(offset, offset + limit - 1);
+
+      if (error) throw error;
+      return { submissions: data, total: count ?? 0 };
+    },
+
+    async findPendingDuplicate({ name, brand }) {
+      let query = supabase
+        .from('drink_submissions')
+        .select('*')
+        .eq('status', 'pending')
+        .ilike('name', exactPattern(name));
+
+      query = brand === null ? query.is('brand', null) : query.ilike('brand', exactPattern(brand));
+
+      const { data, error } = await query.limit(1);
+
+      if (error) throw error;
+      return data[0] ?? null;
+    },
+
+    async update(id, fields, options = {}) {
+      let query = supabase
+        .from('drink_submissions')
+        .update(fields)
+        .eq('id', id);
+
+      if (options.ifStatus) {
+        query = query.eq('status', options.ifStatus);
+      }
+
+      const { data, error } = await query.select().maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async deleteForUser(userId) {
+      const { count, error } = await supabase
+        .from('drink_submissions')
+        .delete({ count: 'exact' })
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      return count ?? 0;
+    },
+  },
+
+  webhookEvents: {
+    async claim(event) {
+      const { error } = await supabase
+        .from('stripe_webhook_events')
+        .insert(event);
+
+      if (error) {
+        // Unique violation: another delivery of this event got here first
+        if (error.code === '23505') {
+          return false;
+        }
+        throw error;
+      }
+
+      return true;
+    },
+
+    async release(id) {
+      await supabase
+        .from('stripe_webhook_events')
+        .delete()
+        .eq('id', id);
+    },
+  },
+});
+
+export const createSupabaseAuthProvider = (supabase: SupabaseClient): AuthProvider => ({
+  async getUser(token) {
+    const { data: { user }, error } = await supabase.auth.getUser(token);
+
+    if (error || !user) {
+      return null;
+    }
+
+    return { id: user.id, email: user.email! };
+  },
+
+  async deleteUser(id) {
+    const { error } = await supabase.auth.admin.deleteUser(id);
+
+    if (error) throw error;
+  },
+});
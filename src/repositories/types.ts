@@ -0,0 +1,434 @@
+// src/repositories/types.ts
+// Data access contracts. Routes depend on these interfaces; the Supabase implementation
+// runs in production and the in-memory one backs HTTP tests with no network.
+import type { CaffeineSensitivity, PregnancyStatus } from '../utils/recommendations';
+import type { SubscriptionStatus } from '../services/subscription';
+import type { PlanId } from '../services/plans';
+import type { Weekday } from '../utils/calendar';
+import type { VolumeUnit } from '../utils/volume';
+
+// A named variant of a drink, e.g. "large" or "double shot"
+export interface DrinkSize {
+  name: string;
+  caffeine_mg: number;
+  volume_ml: number | null;
+}
+
+export interface Drink {
+  id: string;
+  name: string;
+  caffeine_per_serving: number;
+  category: string;
+  brand: string | null;
+  serving_size: string | null;
+  // Concentration, for logging an explicit volume; null when unknown
+  caffeine_per_100ml: number | null;
+  sizes: DrinkSize[];
+  // Normalised EAN/UPC (see utils/barcode)
+  barcode: string | null;
+  is_custom: boolean;
+  // null for the predefined catalog
+  user_id: string | null;
+  // Set instead of deleting, so logs keep their drink; archived drinks can't be logged
+  archived_at: string | null;
+  // Lets anyone holding the link import a copy of a custom drink; null when not shared
+  share_token: string | null;
+  // Last time the row was written, for the changes feed
+  updated_at: string;
+}
+
+export type DrinkFields = Pick<
+  Drink,
+  'name' | 'caffeine_per_serving' | 'category' | 'brand' | 'serving_size' | 'caffeine_per_100ml' | 'sizes' | 'barcode'
+>;
+
+export type DrinkSummary = Pick<
+  Drink,
+  | 'id'
+  | 'name'
+  | 'caffeine_per_serving'
+  | 'category'
+  | 'brand'
+  | 'serving_size'
+  | 'caffeine_per_100ml'
+  | 'sizes'
+  | 'archived_at'
+>;
+
+// How an intake log's total was derived: a number of servings, a named size, or a volume
+export type IntakeMeasure = 'servings' | 'size' | 'volume';
+
+// Pending logs were added by a routine's schedule and count for nothing until the user confirms them
+export type IntakeStatus = 'logged' | 'pending';
+
+export interface IntakeLog {
+  id: string;
+  user_id: string;
+  // ID the client generated for the log, unique per user; retried submissions reuse it
+  client_id: string | null;
+  status: IntakeStatus;
+  // Routine the log came from, if any
+  routine_id: string | null;
+  drink_id: string;
+  // Snapshot of the drink when logged, so later edits don't rewrite history
+  drink_name: string;
+  // Caffeine in one serving as logged: one `size_name` for size logs, otherwise the default serving
+  caffeine_per_serving: number;
+  // Count of the default serving or of `size_name`; 1 for volume logs
+  servings: number;
+  measure: IntakeMeasure;
+  size_name: string | null;
+  volume_ml: number | null;
+  // Unit the volume was entered in, for display
+  volume_unit: VolumeUnit | null;
+  total_caffeine: number;
+  consumed_at: string;
+  // Local calendar day of consumed_at in the user's timezone (YYYY-MM-DD)
+  date: string;
+  notes: string | null;
+  // Last time the row was written, for the changes feed
+  updated_at: string;
+}
+
+export interface IntakeLogWithDrink extends IntakeLog {
+  drinks: DrinkSummary | null;
+}
+
+export type NewIntakeLog = Omit<IntakeLog, 'id' | 'updated_at'>;
+
+// Left behind when a log is deleted, so clients syncing later learn it's gone
+export interface IntakeLogDeletion {
+  id: string;
+  deleted_at: string;
+}
+
+export type IntakeLogUpdate = Partial<Pick<
+  IntakeLog,
+  | 'servings'
+  | 'caffeine_per_serving'
+  | 'measure'
+  | 'size_name'
+  | 'volume_ml'
+  | 'volume_unit'
+  | 'total_caffeine'
+  | 'consumed_at'
+  | 'date'
+  | 'notes'
+  | 'status'
+>>;
+
+export interface IntakeCursor {
+  consumed_at: string;
+  id: string;
+}
+
+// Position in a changes feed: the last row returned, ordered by change time then ID.
+// A null ID resumes after every row changed at `changed_at`.
+export interface ChangeCursor {
+  changed_at: string;
+  id: string | null;
+}
+
+// Rows changed strictly after `after` (from the start when null) and no later than `until`
+export interface ChangeWindow {
+  after: ChangeCursor | null;
+  until: string;
+  limit: number;
+}
+
+export type UserRole = 'user' | 'admin';
+
+// A named set of drinks a user has at set times, e.g. "morning routine"
+export interface RoutineItem {
+  drink_id: string;
+  servings: number;
+  // One of the drink's size variants; null for the default serving
+  size: string | null;
+  // Local time of day, HH:MM
+  time: string;
+}
+
+export interface Routine {
+  id: string;
+  user_id: string;
+  name: string;
+  items: RoutineItem[];
+  // Days the routine is scheduled on; empty for a routine only logged by hand
+  weekdays: Weekday[];
+  // Add scheduled items as pending logs for the user to confirm or dismiss
+  auto_log: boolean;
+  // Scheduled items up to this instant have been added as pending logs
+  scheduled_through: string | null;
+  created_at: string;
+}
+
+export type RoutineFields = Pick<Routine, 'name' | 'items' | 'weekdays' | 'auto_log'>;
+
+export type RoutineUpdate = Partial<RoutineFields & Pick<Routine, 'scheduled_through'>>;
+
+export interface UserProfile {
+  id: string;
+  email: string | null;
+  // Admins moderate community drink submissions
+  role: UserRole | null;
+  daily_caffeine_limit: number | null;
+  strict_limit_mode: boolean | null;
+  caffeine_half_life_hours: number | null;
+  timezone: string | null;
+  body_weight_kg: number | null;
+  pregnancy_status: PregnancyStatus | null;
+  caffeine_sensitivity: CaffeineSensitivity | null;
+  medications: string[] | null;
+  stripe_customer_id: string | null;
+  subscription_id: string | null;
+  subscription_status: SubscriptionStatus | null;
+  subscription_expires_at: string | null;
+  subscription_event_at: string | null;
+  subscription_plan: PlanId | null;
+  trial_used: boolean | null;
+}
+
+export type ProfileUpdate = Partial<Omit<UserProfile, 'id'>>;
+
+export type SubmissionStatus = 'pending' | 'approved' | 'rejected';
+
+// A user's custom drink proposed for the public catalog. Fields are copied at submission time,
+// so later edits to the custom drink don't change what moderators review.
+export interface DrinkSubmission extends DrinkFields {
+  id: string;
+  user_id: string;
+  // The custom drink it was submitted from
+  drink_id: string;
+  status: SubmissionStatus;
+  rejection_reason: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  // The catalog drink created on approval
+  catalog_drink_id: string | null;
+  created_at: string;
+}
+
+export type NewDrinkSubmission = Pick<DrinkSubmission, 'user_id' | 'drink_id'> & DrinkFields;
+
+export type DrinkSubmissionUpdate = Partial<
+  Pick<DrinkSubmission, 'status' | 'rejection_reason' | 'reviewed_by' | 'reviewed_at' | 'catalog_drink_id'>
+>;
+
+export type AccountDeletionStatus = 'scheduled' | 'cancelled' | 'processing' | 'completed';
+
+// What a completed deletion removed
+export interface AccountDeletionSummary {
+  intake_logs: number;
+  routines: number;
+  custom_drinks: number;
+  favorites: number;
+  drink_submissions: number;
+  subscription_cancelled: boolean;
+  billing_customer_deleted: boolean;
+}
+
+// Audit record of a user's request to delete their account. It outlives the account and holds
+// no personal data beyond the user ID.
+export interface AccountDeletion {
+  id: string;
+  user_id: string;
+  status: AccountDeletionStatus;
+  requested_at: string;
+  // End of the undo window; the data is removed after this
+  scheduled_for: string;
+  cancelled_at: string | null;
+  completed_at: string | null;
+  // Subscription whose renewal was turned off by the request, turned back on if it's undone
+  paused_subscription_id: string | null;
+  summary: AccountDeletionSummary | null;
+  // Why the last processing attempt failed; it's retried on the next run
+  last_error: string | null;
+}
+
+export type NewAccountDeletion = Pick<AccountDeletion, 'user_id' | 'scheduled_for' | 'paused_subscription_id'>;
+
+export type AccountDeletionUpdate = Partial<
+  Pick<AccountDeletion, 'status' | 'cancelled_at' | 'completed_at' | 'summary' | 'last_error'>
+>;
+
+export interface DrinkSearch {
+  // Matched case-insensitively against name and brand
+  query?: string;
+  category?: string;
+  limit: number;
+  offset: number;
+}
+
+// Lookups and listings skip archived drinks unless they say otherwise
+export interface DrinkRepository {
+  // Predefined drinks plus the user's custom drinks, ordered by category
+  listVisible(userId: string): Promise<Drink[]>;
+  // The user's archived custom drinks, most recently archived first
+  listArchived(userId: string): Promise<Drink[]>;
+  // One page of visible drinks ordered by category then name, with the total match count
+  search(userId: string, options: DrinkSearch): Promise<{ drinks: Drink[]; total: number }>;
+  // A drink the user may log: predefined or their own
+  findVisible(userId: string, id: string): Promise<Drink | null>;
+  // Visible drinks among `ids`, in no particular order; unknown IDs are skipped
+  findVisibleByIds(userId: string, ids: string[]): Promise<Drink[]>;
+  // The user's own drink wins over a catalog drink with the same barcode
+  findByBarcode(userId: string, barcode: string): Promise<Drink | null>;
+  // Catalog drinks with the same name and brand (ignoring case), or the same barcode
+  findCatalogDuplicates(fields: Pick<DrinkFields, 'name' | 'brand' | 'barcode'>): Promise<Drink[]>;
+  // An active shared custom drink
+  findByShareToken(token: string): Promise<Drink | null>;
+  // Sets or (with null) revokes the share token of the user's active custom drink
+  setShareToken(userId: string, id: string, token: string | null): Promise<Drink | null>;
+  createCatalog(fields: DrinkFields): Promise<Drink>;
+  // Active custom drinks only
+  countCustom(userId: string): Promise<number>;
+  createCustom(userId: string, fields: DrinkFields): Promise<Drink>;
+  // These return null when the drink doesn't exist, isn't the user's custom drink,
+  // or (for update and archive) is already archived; restore only matches archived drinks
+  updateCustom(userId: string, id: string, fields: Partial<DrinkFields>): Promise<Drink | null>;
+  archiveCustom(userId: string, id: string): Promise<Drink | null>;
+  restoreCustom(userId: string, id: string): Promise<Drink | null>;
+  // Removes the user's custom drinks among `ids` outright rather than archiving them; returns how many
+  deleteCustom(userId: string, ids: string[]): Promise<number>;
+  // Removes all of the user's custom drinks, archived ones included; returns how many
+  deleteAllCustom(userId: string): Promise<number>;
+  // Catalog drinks and the user's custom drinks (archived included) changed in the window, oldest change first
+  listChanged(userId: string, window: ChangeWindow): Promise<Drink[]>;
+}
+
+export interface IntakeRepository {
+  create(log: NewIntakeLog): Promise<IntakeLogWithDrink>;
+  // Inserted together; either all rows are written or none
+  createMany(logs: NewIntakeLog[]): Promise<IntakeLog[]>;
+  // Like createMany, but rows whose client_id the user already has are skipped; returns the rows written
+  createManyIfNew(logs: NewIntakeLog[]): Promise<IntakeLog[]>;
+  findByClientIds(userId: string, clientIds: string[]): Promise<IntakeLog[]>;
+  // Pending logs are found too; the list methods below only return logged ones unless stated
+  findById(userId: string, id: string): Promise<IntakeLogWithDrink | null>;
+  // `ifStatus` skips the write (returning null) unless the log is still in that status
+  update(userId: string, id: string, fields: IntakeLogUpdate, options?: { ifStatus?: IntakeStatus }): Promise<IntakeLog | null>;
+  // Returns whether a log was deleted
+  delete(userId: string, id: string): Promise<boolean>;
+  // Logs on a local day, newest first
+  listForDay(userId: string, date: string): Promise<IntakeLogWithDrink[]>;
+  // Logs between two local days (inclusive), oldest first
+  listForDays(userId: string, from: string, to: string): Promise<IntakeLog[]>;
+  // Logs consumed between two instants (inclusive), oldest first
+  listConsumedBetween(userId: string, from: string, to: string): Promise<IntakeLog[]>;
+  // One page of logs between two local days, newest first, strictly after `cursor`
+  page(
+    userId: string,
+    options: { from: string; to: string; cursor?: IntakeCursor | null; limit: number }
+  ): Promise<IntakeLogWithDrink[]>;
+  // Logged and pending
+  listAll(userId: string): Promise<IntakeLog[]>;
+  // Pending logs, newest first
+  listPending(userId: string): Promise<IntakeLogWithDrink[]>;
+  // Logs with drink details between two local days (inclusive, either bound optional), oldest first
+  listWithDrinks(userId: string, range: { from?: string; to?: string }): Promise<IntakeLogWithDrink[]>;
+  setDate(userId: string, ids: string[], date: string): Promise<void>;
+  // Returns how many logs were removed; no deletion records are kept
+  deleteAll(userId: string): Promise<number>;
+  // Logs (pending ones included) created or updated in the window, oldest change first;
+  // `fromDate` skips logs on earlier local days
+  listChanged(userId: string, window: ChangeWindow & { fromDate?: string }): Promise<IntakeLogWithDrink[]>;
+  // Logs deleted in the window, oldest first
+  listDeleted(userId: string, window: ChangeWindow): Promise<IntakeLogDeletion[]>;
+}
+
+export interface ProfileRepository {
+  findById(id: string): Promise<UserProfile | null>;
+  findByStripeCustomerId(customerId: string): Promise<UserProfile | null>;
+  // Creates the profile if it doesn't exist yet
+  upsert(id: string, fields: ProfileUpdate): Promise<UserProfile>;
+  // `ifEventNotAfter` skips the write when a newer webhook event has already been applied
+  update(id: string, fields: ProfileUpdate, options?: { ifEventNotAfter?: string }): Promise<UserProfile | null>;
+  delete(id: string): Promise<void>;
+}
+
+export interface FavoriteRepository {
+  // Favorited drink IDs, most recently added first
+  listDrinkIds(userId: string): Promise<string[]>;
+  // Both are idempotent
+  add(userId: string, drinkId: string): Promise<void>;
+  remove(userId: string, drinkId: string): Promise<void>;
+  // Returns how many favorites were removed
+  removeAll(userId: string): Promise<number>;
+}
+
+export interface DrinkSubmissionRepository {
+  create(submission: NewDrinkSubmission): Promise<DrinkSubmission>;
+  findById(id: string): Promise<DrinkSubmission | null>;
+  // The user's submissions, newest first
+  listForUser(userId: string): Promise<DrinkSubmission[]>;
+  // One page of submissions in a status, oldest first so the queue is worked in order
+  listByStatus(
+    status: SubmissionStatus,
+    options: { limit: number; offset: number }
+  ): Promise<{ submissions: DrinkSubmission[]; total: number }>;
+  // A pending submission with the same name and brand (ignoring case)
+  findPendingDuplicate(fields: Pick<DrinkFields, 'name' | 'brand'>): Promise<DrinkSubmission | null>;
+  // `ifStatus` skips the write (returning null) unless the submission is still in that status
+  update(id: string, fields: DrinkSubmissionUpdate, options?: { ifStatus?: SubmissionStatus }): Promise<DrinkSubmission | null>;
+  // Published catalog drinks are kept; returns how many submissions were removed
+  deleteForUser(userId: string): Promise<number>;
+}
+
+export interface RoutineRepository {
+  // The user's routines by name
+  list(userId: string): Promise<Routine[]>;
+  findById(userId: string, id: string): Promise<Routine | null>;
+  count(userId: string): Promise<number>;
+  create(userId: string, fields: RoutineFields & Pick<Routine, 'scheduled_through'>): Promise<Routine>;
+  update(userId: string, id: string, fields: RoutineUpdate): Promise<Routine | null>;
+  delete(userId: string, id: string): Promise<Routine | null>;
+  // Returns how many routines were removed
+  deleteAll(userId: string): Promise<number>;
+  // Every user's routines with auto_log on
+  listAutoLogged(): Promise<Routine[]>;
+}
+
+export interface AccountDeletionRepository {
+  // Null when the user already has a scheduled or processing deletion
+  create(deletion: NewAccountDeletion): Promise<AccountDeletion | null>;
+  // The user's most recent deletion request, in any status
+  findLatestForUser(userId: string): Promise<AccountDeletion | null>;
+  // Scheduled deletions whose undo window ended at or before `now`, oldest first
+  listDue(now: string, limit: number): Promise<AccountDeletion[]>;
+  // One page of deletions in a status, newest first
+  listByStatus(
+    status: AccountDeletionStatus,
+    options: { limit: number; offset: number }
+  ): Promise<{ deletions: AccountDeletion[]; total: number }>;
+  // `ifStatus` skips the write (returning null) unless the deletion is still in that status
+  update(id: string, fields: AccountDeletionUpdate, options?: { ifStatus?: AccountDeletionStatus }): Promise<AccountDeletion | null>;
+}
+
+export interface WebhookEventRepository {
+  // Record an event ID; false when it was already recorded (a retry or duplicate delivery)
+  claim(event: { id: string; type: string; created_at: string | null }): Promise<boolean>;
+  release(id: string): Promise<void>;
+}
+
+export interface Repositories {
+  accountDeletions: AccountDeletionRepository;
+  drinks: DrinkRepository;
+  favorites: FavoriteRepository;
+  intake: IntakeRepository;
+  profiles: ProfileRepository;
+  routines: RoutineRepository;
+  submissions: DrinkSubmissionRepository;
+  webhookEvents: WebhookEventRepository;
+}
+
+export interface AuthUser {
+  id: string;
+  email: string;
+}
+
+export interface AuthProvider {
+  // Resolve a bearer token to the user it belongs to, or null if it's invalid
+  getUser(token: string): Promise<AuthUser | null>;
+  // Removes the login; tokens already issued stop resolving
+  deleteUser(id: string): Promise<void>;
+}
@@ -0,0 +1,139 @@
+// src/routes/admin.ts
+import express, { Response } from 'express';
+import type { AppDependencies } from '../app';
+import { AuthRequest, createAuthenticateUser, requireAdmin } from '../middleware/auth';
+import { ValidatedRequest, validate } from '../middleware/validate';
+import { ConflictError, NotFoundError } from '../errors';
+import { processDueAccountDeletions } from '../services/accountDeletion';
+import { assertNotInCatalog, pickDrinkFields } from '../services/catalog';
+import {
+  approveSubmissionSchema,
+  listAccountDeletionsSchema,
+  listSubmissionsSchema,
+  rejectSubmissionSchema
+} from '../validation/admin';
+
+export const createAdminRouter = (deps: AppDependencies) => {
+  const router = express.Router();
+  const { repositories, auth, billing } = deps;
+  const { accountDeletions, drinks, submissions } = repositories;
+
+  // Load a submission that is still awaiting review
+  const findPending = async (id: string) => {
+    const submission = await submissions.findById(id);
+
+    if (!submission) {
+      throw new NotFoundError('Submission not found', 'submission_not_found');
+    }
+    if (submission.status !== 'pending') {
+      throw new ConflictError('Submission has already been reviewed', 'submission_already_reviewed', {
+        status: submission.status
+      });
+    }
+
+    return submission;
+  };
+
+  // Every route here is admin-only
+  router.use(createAuthenticateUser(auth, repositories.profiles, billing));
+  router.use(requireAdmin);
+
+  // Moderation queue: submissions in a status, oldest first. Pending ones list catalog drinks
+  // they may duplicate, since the catalog can change while they wait.
+  router.get('/submissions', validate(listSubmissionsSchema), async (
+    req: ValidatedRequest<typeof listSubmissionsSchema>,
+    res: Response
+  ) => {
+    const { status, limit, offset } = req.query;
+
+    const page = await submissions.listByStatus(status, { limit, offset });
+
+    const data = [];
+    for (const submission of page.submissions) {
+      const duplicates = status === 'pending' ? await drinks.findCatalogDuplicates(submission) : [];
+      data.push({ ...submission, duplicate_drink_ids: duplicates.map((drink) => drink.id) });
+    }
+
+    res.json({ submissions: data, total: page.total, limit, offset });
+  });
+
+  // Publish a submission to the catalog as a new predefined drink
+  router.post('/submissions/:id/approve', validate(approveSubmissionSchema), async (
+    req: ValidatedRequest<typeof approveSubmissionSchema>,
+    res: Response
+  ) => {
+    const { id } = req.params;
+
+    const submission = await findPending(id);
+    await assertNotInCatalog(drinks, submission);
+
+    // Claim the submission first so two moderators can't both publish it
+    const claimed = await submissions.update(id, {
+      status: 'approved',
+      reviewed_by: req.user!.id,
+      reviewed_at: new Date().toISOString()
+    }, { ifStatus: 'pending' });
+
+    if (!claimed) {
+      throw new ConflictError('Submission has already been reviewed', 'submission_already_reviewed');
+    }
+
+    let drink;
+    try {
+      drink = await drinks.createCatalog(pickDrinkFields(submission));
+    } catch (error) {
+      // Put it back in the queue so the approval can be retried
+      await submissions.update(id, { status: 'pending', reviewed_by: null, reviewed_at: null });
+      throw error;
+    }
+
+    const data = (await submissions.update(id, { catalog_drink_id: drink.id })) ?? claimed;
+
+    res.json({ submission: data, drink });
+  });
+
+  // Reject a submission with a reason for the submitter
+  router.post('/submissions/:id/reject', validate(rejectSubmissionSchema), async (
+    req: ValidatedRequest<typeof rejectSubmissionSchema>,
+    res: Response
+  ) => {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    await findPending(id);
+
+    const data = await submissions.update(id, {
+      status: 'rejected',
+      rejection_reason: reason,
+      reviewed_by: req.user!.id,
+      reviewed_at: new Date().toISOString()
+    }, { ifStatus: 'pending' });
+
+    if (!data) {
+      throw new ConflictError('Submission has already been reviewed', 'submission_already_reviewed');
+    }
+
+    res.json(data);
+  });
+
+  // Account deletion audit records in a status
+  router.get('/account-deletions', validate(listAccountDeletionsSchema), async (
+    req: ValidatedRequest<typeof listAccountDeletionsSchema>,
+    res: Response
+  ) => {
+    const { status, limit, offset } = req.query;
+
+    const page = await accountDeletions.listByStatus(status, { limit, offset });
+
+    res.json({ deletions: page.deletions, total: page.total, limit, offset });
+  });
+
+  // Carry out deletions whose undo window has ended now rather than on the next scheduled run
+  router.post('/account-deletions/process', async (req: AuthRequest, res: Response) => {
+    const { completed, failed } = await processDueAccountDeletions(deps);
+
+    res.json({ completed, failed });
+  });
+
+  return router;
+};
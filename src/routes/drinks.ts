@@ -1,112 +1,376 @@
-// src/routes/drinks.ts (UPDATED to use middleware correctly)
-import express from 'express';
-import { supabase } from '../app';
-import { authenticateUser, requireActiveSubscription, AuthRequest } from '../middleware/auth';
+// src/routes/drinks.ts
+import crypto from 'crypto';
+import express, { Response } from 'express';
+import type { AppDependencies } from '../app';
+import { createAuthenticateUser, AuthRequest } from '../middleware/auth';
+import { ValidatedRequest, validate } from '../middleware/validate';
+import { FREE_TIER_LIMITS } from '../services/entitlements';
+import { Drink } from '../repositories/types';
+import { ConflictError, ForbiddenError, NotFoundError } from '../errors';
+import { assertNotInCatalog, pickDrinkFields } from '../services/catalog';
+import { DrinkUsage, USAGE_WINDOW_DAYS, recentDrinks, summarizeDrinkUsage, topDrinks } from '../utils/drinkUsage';
+import {
+  barcodeLookupSchema,
+  createDrinkSchema,
+  deleteDrinkSchema,
+  favoriteDrinkSchema,
+  recentDrinksSchema,
+  restoreDrinkSchema,
+  searchDrinksSchema,
+  shareDrinkSchema,
+  sharedDrinkSchema,
+  submitDrinkSchema,
+  topDrinksSchema,
+  updateDrinkSchema
+} from '../validation/drinks';
 
-const router = express.Router();
+export const createDrinksRouter = ({ repositories, auth, billing }: AppDependencies) => {
+  const router = express.Router();
+  const { drinks, favorites, intake, submissions } = repositories;
 
-// Apply authentication to all routes
-router.use(authenticateUser as any, requireActiveSubscription as any);
+  const withFavorites = async (userId: string, list: Drink[]) => {
+    const favoriteIds = new Set(await favorites.listDrinkIds(userId));
+    return list.map((drink) => ({ ...drink, is_favorite: favoriteIds.has(drink.id) }));
+  };
 
-// Get all drinks (predefined + user's custom)
-router.get('/', async (req: AuthRequest, res: any) => {
-  try {
-    const { data, error } = await supabase
-      .from('drinks')
-      .select('*')
-      .or(`user_id.is.null,user_id.eq.${req.user!.id}`)
-      .order('category', { ascending: true });
+  // Usage entries joined with their drinks, dropping drinks that have since been archived
+  const usageWithDrinks = async (userId: string, usage: DrinkUsage[]) => {
+    const found = await withFavorites(userId, await drinks.findVisibleByIds(userId, usage.map((entry) => entry.drink_id)));
+    const byId = new Map(found.map((drink) => [drink.id, drink]));
 
-    if (error) throw error;
+    return usage.flatMap((entry) => {
+      const drink = byId.get(entry.drink_id);
+      return drink ? [{ ...drink, log_count: entry.log_count, last_consumed_at: entry.last_consumed_at }] : [];
+    });
+  };
+
+  // Free accounts are capped on active custom drinks; archived ones don't count
+  const checkCustomDrinkQuota = async (user: NonNullable<AuthRequest['user']>) => {
+    if (user.tier !== 'free') {
+      return;
+    }
+
+    const count = await drinks.countCustom(user.id);
+
+    if (count >= FREE_TIER_LIMITS.custom_drinks) {
+      throw new ForbiddenError(
+        `Free accounts can create up to ${FREE_TIER_LIMITS.custom_drinks} custom drinks`,
+        'custom_drink_limit',
+        { feature: 'custom_drinks', tier: user.tier }
+      );
+    }
+  };
+
+  const usageFor = async (userId: string) => {
+    const now = new Date();
+    const since = new Date(now.getTime() - USAGE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    return summarizeDrinkUsage(await intake.listConsumedBetween(userId, since.toISOString(), now.toISOString()));
+  };
+
+  // Apply authentication to all routes; premium features are gated per route
+  router.use(createAuthenticateUser(auth, repositories.profiles, billing));
+
+  // Get all drinks (predefined + user's custom)
+  router.get('/', async (req: AuthRequest, res: Response) => {
+    const data = await drinks.listVisible(req.user!.id);
+
+    res.json(data);
+  });
+
+  // The user's archived custom drinks, which can be restored
+  router.get('/archived', async (req: AuthRequest, res: Response) => {
+    const data = await drinks.listArchived(req.user!.id);
 
     res.json(data);
-  } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch drinks' });
-  }
-});
-
-// Create custom drink
-router.post('/', async (req: AuthRequest, res: any) => {
-  try {
-    const { name, caffeine_per_serving, category, brand, serving_size } = req.body;
-
-    if (!name || !caffeine_per_serving || !category) {
-      return res.status(400).json({ error: 'Missing required fields' });
+  });
+
+  // Search visible drinks by name or brand, optionally within a category, one page at a time
+  router.get('/search', validate(searchDrinksSchema), async (
+    req: ValidatedRequest<typeof searchDrinksSchema>,
+    res: Response
+  ) => {
+    const { q, category, limit, offset } = req.query;
+
+    const { drinks: page, total } = await drinks.search(req.user!.id, { query: q, category, limit, offset });
+
+    res.json({ drinks: await withFavorites(req.user!.id, page), total, limit, offset });
+  });
+
+  // Look up a drink by its scanned UPC/EAN
+  router.get('/barcode/:code', validate(barcodeLookupSchema), async (
+    req: ValidatedRequest<typeof barcodeLookupSchema>,
+    res: Response
+  ) => {
+    const { code } = req.params;
+
+    const drink = await drinks.findByBarcode(req.user!.id, code);
+
+    if (!drink) {
+      throw new NotFoundError('No drink found for this barcode', 'drink_not_found');
     }
 
-    const { data, error } = await supabase
-      .from('drinks')
-      .insert({
-        name,
-        caffeine_per_serving,
-        category,
-        brand,
-        serving_size,
-        is_custom: true,
-        user_id: req.user!.id
-      })
-      .select()
-      .single();
-
-    if (error) throw error;
+    const [data] = await withFavorites(req.user!.id, [drink]);
+    res.json(data);
+  });
+
+  // Favorite drinks, most recently favorited first
+  router.get('/favorites', async (req: AuthRequest, res: Response) => {
+    const ids = await favorites.listDrinkIds(req.user!.id);
+    const byId = new Map((await drinks.findVisibleByIds(req.user!.id, ids)).map((drink) => [drink.id, drink]));
+
+    const data = ids.flatMap((id) => {
+      const drink = byId.get(id);
+      return drink ? [{ ...drink, is_favorite: true }] : [];
+    });
+
+    res.json(data);
+  });
+
+  // Drinks logged recently, most recent first
+  router.get('/recent', validate(recentDrinksSchema), async (
+    req: ValidatedRequest<typeof recentDrinksSchema>,
+    res: Response
+  ) => {
+    const usage = recentDrinks(await usageFor(req.user!.id)).slice(0, req.query.limit);
+
+    res.json(await usageWithDrinks(req.user!.id, usage));
+  });
+
+  // The user's most logged drinks, for one-tap logging
+  router.get('/top', validate(topDrinksSchema), async (
+    req: ValidatedRequest<typeof topDrinksSchema>,
+    res: Response
+  ) => {
+    const usage = topDrinks(await usageFor(req.user!.id)).slice(0, req.query.limit);
+
+    res.json(await usageWithDrinks(req.user!.id, usage));
+  });
+
+  // Create custom drink
+  router.post('/', validate(createDrinkSchema), async (
+    req: ValidatedRequest<typeof createDrinkSchema>,
+    res: Response
+  ) => {
+    const { name, caffeine_per_serving, category, brand, serving_size, caffeine_per_100ml, sizes, barcode } = req.body;
+
+    await checkCustomDrinkQuota(req.user!);
+
+    const data = await drinks.createCustom(req.user!.id, {
+      name,
+      caffeine_per_serving,
+      category,
+      brand: brand ?? null,
+      serving_size: serving_size ?? null,
+      caffeine_per_100ml: caffeine_per_100ml ?? null,
+      sizes: sizes ?? [],
+      barcode: barcode ?? null
+    });
 
     res.status(201).json(data);
-  } catch (error) {
-    res.status(500).json({ error: 'Failed to create drink' });
-  }
-});
-
-// Update custom drink
-router.put('/:id', async (req: AuthRequest, res: any) => {
-  try {
+  });
+
+  // Update custom drink
+  router.put('/:id', validate(updateDrinkSchema), async (
+    req: ValidatedRequest<typeof updateDrinkSchema>,
+    res: Response
+  ) => {
     const { id } = req.params;
-    const { name, caffeine_per_serving, category, brand, serving_size } = req.body;
-
-    const { data, error } = await supabase
-      .from('drinks')
-      .update({
-        name,
-        caffeine_per_serving,
-        category,
-        brand,
-        serving_size
-      })
-      .eq('id', id)
-      .eq('user_id', req.user!.id)
-      .eq('is_custom', true)
-      .select()
-      .single();
-
-    if (error) throw error;
+    const { name, caffeine_per_serving, category, brand, serving_size, caffeine_per_100ml, sizes, barcode } = req.body;
+
+    const data = await drinks.updateCustom(req.user!.id, id, {
+      name,
+      caffeine_per_serving,
+      category,
+      brand,
+      serving_size,
+      caffeine_per_100ml,
+      sizes,
+      barcode
+    });
 
     if (!data) {
-      return res.status(404).json({ error: 'Drink not found or not authorized' });
+      throw new NotFoundError('Drink not found or not authorized', 'drink_not_found');
     }
 
     res.json(data);
-  } catch (error) {
-    res.status(500).json({ error: 'Failed to update drink' });
-  }
-});
-
-// Delete custom drink
-router.delete('/:id', async (req: AuthRequest, res: any) => {
-  try {
+  });
+
+  // Delete custom drink. The drink is archived rather than removed so existing logs keep it;
+  // it disappears from listings and can no longer be logged.
+  router.delete('/:id', validate(deleteDrinkSchema), async (
+    req: ValidatedRequest<typeof deleteDrinkSchema>,
+    res: Response
+  ) => {
     const { id } = req.params;
 
-    const { error } = await supabase
-      .from('drinks')
-      .delete()
-      .eq('id', id)
-      .eq('user_id', req.user!.id)
-      .eq('is_custom', true);
+    const archived = await drinks.archiveCustom(req.user!.id, id);
+
+    if (!archived) {
+      throw new NotFoundError('Drink not found or not authorized', 'drink_not_found');
+    }
 
-    if (error) throw error;
+    await favorites.remove(req.user!.id, id);
 
     res.json({ message: 'Drink deleted successfully' });
-  } catch (error) {
-    res.status(500).json({ error: 'Failed to delete drink' });
-  }
-});
+  });
+
+  // The user's catalog submissions and their review status, newest first
+  router.get('/submissions', async (req: AuthRequest, res: Response) => {
+    const data = await submissions.listForUser(req.user!.id);
+
+    res.json(data);
+  });
+
+  // Propose a custom drink for the public catalog; a moderator approves or rejects it
+  router.post('/:id/submit', validate(submitDrinkSchema), async (
+    req: ValidatedRequest<typeof submitDrinkSchema>,
+    res: Response
+  ) => {
+    const { id } = req.params;
+
+    const drink = await drinks.findVisible(req.user!.id, id);
+
+    if (!drink || drink.user_id !== req.user!.id) {
+      throw new NotFoundError('Drink not found or not authorized', 'drink_not_found');
+    }
+
+    const fields = pickDrinkFields(drink);
+
+    await assertNotInCatalog(drinks, fields);
+
+    const pending = await submissions.findPendingDuplicate(fields);
+
+    if (pending) {
+      throw new ConflictError('This drink is already awaiting review', 'duplicate_submission', {
+        submission_id: pending.user_id === req.user!.id ? pending.id : undefined
+      });
+    }
+
+    const data = await submissions.create({ user_id: req.user!.id, drink_id: drink.id, ...fields });
+
+    res.status(201).json(data);
+  });
+
+  // Create a share link for a custom drink; sharing an already shared drink returns the same token
+  router.post('/:id/share', validate(shareDrinkSchema), async (
+    req: ValidatedRequest<typeof shareDrinkSchema>,
+    res: Response
+  ) => {
+    const { id } = req.params;
+
+    const drink = await drinks.findVisible(req.user!.id, id);
+
+    if (!drink || drink.user_id !== req.user!.id) {
+      throw new NotFoundError('Drink not found or not authorized', 'drink_not_found');
+    }
+
+    const data = drink.share_token
+      ? drink
+      : await drinks.setShareToken(req.user!.id, id, crypto.randomBytes(16).toString('base64url'));
+
+    // Archived between the read and the write
+    if (!data) {
+      throw new NotFoundError('Drink not found or not authorized', 'drink_not_found');
+    }
+
+    res.json({ drink_id: data.id, share_token: data.share_token });
+  });
+
+  // Revoke a share link; existing imports are unaffected
+  router.delete('/:id/share', validate(shareDrinkSchema), async (
+    req: ValidatedRequest<typeof shareDrinkSchema>,
+    res: Response
+  ) => {
+    const { id } = req.params;
+
+    const data = await drinks.setShareToken(req.user!.id, id, null);
+
+    if (!data) {
+      throw new NotFoundError('Drink not found or not authorized', 'drink_not_found');
+    }
+
+    res.json({ drink_id: data.id, share_token: null });
+  });
+
+  // Preview a shared drink; the owner isn't revealed
+  router.get('/shared/:token', validate(sharedDrinkSchema), async (
+    req: ValidatedRequest<typeof sharedDrinkSchema>,
+    res: Response
+  ) => {
+    const drink = await drinks.findByShareToken(req.params.token);
+
+    if (!drink) {
+      throw new NotFoundError('Shared drink not found or no longer shared', 'shared_drink_not_found');
+    }
+
+    res.json(pickDrinkFields(drink));
+  });
+
+  // Import a copy of a shared drink into the user's custom drinks
+  router.post('/shared/:token/import', validate(sharedDrinkSchema), async (
+    req: ValidatedRequest<typeof sharedDrinkSchema>,
+    res: Response
+  ) => {
+    const drink = await drinks.findByShareToken(req.params.token);
+
+    if (!drink) {
+      throw new NotFoundError('Shared drink not found or no longer shared', 'shared_drink_not_found');
+    }
+
+    await checkCustomDrinkQuota(req.user!);
+
+    const data = await drinks.createCustom(req.user!.id, pickDrinkFields(drink));
+
+    res.status(201).json(data);
+  });
+
+  // Bring back an archived custom drink
+  router.post('/:id/restore', validate(restoreDrinkSchema), async (
+    req: ValidatedRequest<typeof restoreDrinkSchema>,
+    res: Response
+  ) => {
+    const { id } = req.params;
+
+    await checkCustomDrinkQuota(req.user!);
+
+    const data = await drinks.restoreCustom(req.user!.id, id);
+
+    if (!data) {
+      throw new NotFoundError('Archived drink not found', 'drink_not_found');
+    }
+
+    res.json(data);
+  });
+
+  // Mark a drink as favorite; repeating the call is a no-op
+  router.put('/:id/favorite', validate(favoriteDrinkSchema), async (
+    req: ValidatedRequest<typeof favoriteDrinkSchema>,
+    res: Response
+  ) => {
+    const { id } = req.params;
+
+    const drink = await drinks.findVisible(req.user!.id, id);
+
+    if (!drink) {
+      throw new NotFoundError('Drink not found', 'drink_not_found');
+    }
+
+    await favorites.add(req.user!.id, id);
+
+    res.json({ ...drink, is_favorite: true });
+  });
+
+  // Remove a favorite; removing one that isn't set is a no-op
+  router.delete('/:id/favorite', validate(favoriteDrinkSchema), async (
+    req: ValidatedRequest<typeof favoriteDrinkSchema>,
+    res: Response
+  ) => {
+    const { id } = req.params;
+
+    await favorites.remove(req.user!.id, id);
+
+    res.json({ drink_id: id, is_favorite: false });
+  });
 
-export default router;
\ No newline at end of file
+  return router;
+};
@@ -1,199 +1,526 @@
-// src/routes/intake.ts (UPDATED to use middleware correctly)
-import express from 'express';
-import { supabase } from '../app';
-import { authenticateUser, requireActiveSubscription, AuthRequest } from '../middleware/auth';
-
-const router = express.Router();
-
-// Apply authentication to all routes
-router.use(authenticateUser as any, requireActiveSubscription as any);
+// src/routes/intake.ts
+import express, { Response } from 'express';
+import type { AppDependencies } from '../app';
+import { createAuthenticateUser, requireFeature, AuthRequest } from '../middleware/auth';
+import { ValidatedRequest, validate } from '../middleware/validate';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../errors';
+import { Repositories } from '../repositories/types';
+import {
+  CaffeineDose,
+  DECAY_LOOKBACK_HOURS,
+  activeCaffeineAt,
+  decayCurve,
+  resolveHalfLife,
+  timeUntilBelow,
+  CURVE_HORIZON_HOURS,
+  CURVE_INTERVAL_MINUTES
+} from '../utils/caffeine';
+import { toLocalDate } from '../utils/timezone';
+import { limitStatus, resolveDailyLimit } from '../utils/limits';
+import { FREE_TIER_LIMITS, Tier } from '../services/entitlements';
+import { ResolvedAmount, rescaleServings, resolveAmount } from '../services/servings';
+import { getInsights } from '../services/insights';
+import { listChanges, logIntakeBatch } from '../services/sync';
+import { addDays, daysBetween, periodEnd, periodStart } from '../utils/calendar';
+import { encodeCursor } from '../utils/cursor';
+import {
+  batchIntakeSchema,
+  changesSchema,
+  confirmIntakeSchema,
+  createIntakeSchema,
+  dailyIntakeSchema,
+  deleteIntakeSchema,
+  dismissIntakeSchema,
+  forecastSchema,
+  historySchema,
+  insightsSchema,
+  listLogsSchema,
+  updateIntakeSchema
+} from '../validation/intake';
+
+const DEFAULT_HISTORY_DAYS = 30;
+const MAX_HISTORY_DAYS = 731;
+
+// Resolve `from`/`to` query parameters into an inclusive local-day range.
+// Free-tier ranges are clipped to the most recent FREE_TIER_LIMITS.history_days.
+const resolveDayRange = (
+  query: { from?: string; to?: string },
+  timezone: string,
+  tier: Tier
+): { from: string; to: string; history_limited: boolean } => {
+  const today = toLocalDate(new Date(), timezone);
+  const to = query.to ?? today;
+  let from = query.from ?? addDays(to, -(DEFAULT_HISTORY_DAYS - 1));
+
+  // Both bounds given are checked by the schema; these catch a defaulted `to`
+  if (from > to) {
+    throw new ValidationError({ from: 'must be on or before to' });
+  }
+  if (daysBetween(from, to) > MAX_HISTORY_DAYS) {
+    throw new ValidationError({ from: `range cannot exceed ${MAX_HISTORY_DAYS} days` });
+  }
 
-// Log caffeine intake
-router.post('/', async (req: AuthRequest, res: any) => {
-  try {
-    const { drink_id, servings = 1, consumed_at, notes } = req.body;
+  let historyLimited = false;
+  if (tier === 'free') {
+    const earliest = addDays(today, -(FREE_TIER_LIMITS.history_days - 1));
+    if (to < earliest) {
+      throw new ForbiddenError(
+        `Free accounts can view the last ${FREE_TIER_LIMITS.history_days} days of history`,
+        'history_limit',
+        { feature: 'history', tier }
+      );
+    }
+    if (from < earliest) {
+      from = earliest;
+      historyLimited = true;
+    }
+  }
 
-    if (!drink_id) {
-      return res.status(400).json({ error: 'drink_id is required' });
+  return { from, to, history_limited: historyLimited };
+};
+
+// Load the user's half-life and every log still relevant to the decay model at `now`
+const getDecayInputs = async ({ profiles, intake }: Repositories, userId: string, now: Date) => {
+  const lookback = new Date(now.getTime() - DECAY_LOOKBACK_HOURS * 60 * 60 * 1000);
+
+  const profile = await profiles.findById(userId);
+  const doses: CaffeineDose[] = await intake.listConsumedBetween(userId, lookback.toISOString(), now.toISOString());
+
+  return {
+    halfLife: resolveHalfLife(profile?.caffeine_half_life_hours),
+    doses
+  };
+};
+
+export const createIntakeRouter = ({ repositories, auth, billing }: AppDependencies) => {
+  const router = express.Router();
+  const { drinks, intake, profiles } = repositories;
+
+  // Apply authentication to all routes; premium features are gated per route
+  router.use(createAuthenticateUser(auth, profiles, billing));
+
+  // Log caffeine intake
+  router.post('/', validate(createIntakeSchema), async (
+    req: ValidatedRequest<typeof createIntakeSchema>,
+    res: Response
+  ) => {
+    const { client_id, drink_id, servings, size, volume, unit, consumed_at, notes, override_limit } = req.body;
+
+    // A retry of a log that was already recorded gets the stored log back (200 rather than 201)
+    if (client_id) {
+      const [existing] = await intake.findByClientIds(req.user!.id, [client_id]);
+      if (existing) {
+        res.json(existing);
+        return;
+      }
     }
 
     // Get drink info to calculate total caffeine
-    const { data: drink, error: drinkError } = await supabase
-      .from('drinks')
-      .select('caffeine_per_serving')
-      .eq('id', drink_id)
-      .single();
+    const drink = await drinks.findVisible(req.user!.id, drink_id);
 
-    if (drinkError || !drink) {
-      return res.status(404).json({ error: 'Drink not found' });
+    if (!drink) {
+      throw new NotFoundError('Drink not found', 'drink_not_found');
     }
 
-    const total_caffeine = Math.round(drink.caffeine_per_serving * servings);
+    const amount = resolveAmount(drink, { servings, size, volume, unit });
+    const { total_caffeine } = amount;
     const consumedDate = consumed_at ? new Date(consumed_at) : new Date();
+    const date = toLocalDate(consumedDate, req.user!.timezone);
 
-    const { data, error } = await supabase
-      .from('intake_logs')
-      .insert({
-        user_id: req.user!.id,
-        drink_id,
-        servings,
-        total_caffeine,
-        consumed_at: consumedDate.toISOString(),
-        date: consumedDate.toISOString().split('T')[0],
-        notes
-      })
-      .select(`
-        *,
-        drinks:drink_id (
-          id,
-          name,
-          caffeine_per_serving,
-          category,
-          brand,
-          serving_size
-        )
-      `)
-      .single();
-
-    if (error) throw error;
-
-    res.status(201).json(data);
-  } catch (error) {
-    res.status(500).json({ error: 'Failed to log intake' });
-  }
-});
+    // Check the day's total against the user's limit before committing the log
+    const profile = await profiles.findById(req.user!.id);
+    const dayLogs = await intake.listForDay(req.user!.id, date);
+
+    const dayTotal = dayLogs.reduce((sum, log) => sum + log.total_caffeine, 0);
+    const limit_status = limitStatus(resolveDailyLimit(profile?.daily_caffeine_limit), dayTotal, total_caffeine);
+
+    if (limit_status.exceeds_limit && profile?.strict_limit_mode && !override_limit) {
+      throw new ConflictError('Daily caffeine limit would be exceeded', 'daily_limit_exceeded', { limit_status });
+    }
+
+    const data = await intake.create({
+      user_id: req.user!.id,
+      client_id: client_id ?? null,
+      status: 'logged',
+      routine_id: null,
+      drink_id,
+      drink_name: drink.name,
+      ...amount,
+      consumed_at: consumedDate.toISOString(),
+      date,
+      notes: notes ?? null
+    });
+
+    res.status(201).json({ ...data, limit_status });
+  });
+
+  // Log entries queued while offline. Each carries a client-generated ID, so re-sending a batch
+  // after a dropped response doesn't log anything twice; results are reported per entry.
+  router.post('/batch', validate(batchIntakeSchema), async (
+    req: ValidatedRequest<typeof batchIntakeSchema>,
+    res: Response
+  ) => {
+    const data = await logIntakeBatch(repositories, req.user!, req.body.entries);
+
+    res.json(data);
+  });
+
+  // What changed since the last sync: logs created, updated or deleted, and drinks changed.
+  // Free accounts only receive logs inside their history window.
+  router.get('/changes', validate(changesSchema), async (
+    req: ValidatedRequest<typeof changesSchema>,
+    res: Response
+  ) => {
+    const fromDate = req.user!.tier === 'free'
+      ? addDays(toLocalDate(new Date(), req.user!.timezone), -(FREE_TIER_LIMITS.history_days - 1))
+      : undefined;
+
+    const data = await listChanges(repositories, req.user!.id, req.query.since ?? null, { fromDate });
 
-// Get daily intake
-router.get('/daily/:date', async (req: AuthRequest, res: any) => {
-  try {
+    res.json({ ...data, history_limited: fromDate !== undefined });
+  });
+
+  // Logs a routine added on its schedule, waiting to be confirmed or dismissed (newest first).
+  // They don't count towards totals until confirmed.
+  router.get('/pending', async (req: AuthRequest, res: Response) => {
+    const data = await intake.listPending(req.user!.id);
+
+    res.json(data);
+  });
+
+  // Get daily intake
+  router.get('/daily/:date', validate(dailyIntakeSchema), async (
+    req: ValidatedRequest<typeof dailyIntakeSchema>,
+    res: Response
+  ) => {
     const { date } = req.params;
 
-    // Validate date format (YYYY-MM-DD)
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
-      return res.status(400).json({ error: 'Invalid date format. Use YYYY-MM-DD' });
-    }
-
-    const { data, error } = await supabase
-      .from('intake_logs')
-      .select(`
-        *,
-        drinks:drink_id (
-          id,
-          name,
-          caffeine_per_serving,
-          category,
-          brand,
-          serving_size
-        )
-      `)
-      .eq('user_id', req.user!.id)
-      .eq('date', date)
-      .order('consumed_at', { ascending: false });
-
-    if (error) throw error;
+    const data = await intake.listForDay(req.user!.id, date);
+    const profile = await profiles.findById(req.user!.id);
 
     const totalCaffeine = data.reduce((sum, log) => sum + log.total_caffeine, 0);
+    const status = limitStatus(resolveDailyLimit(profile?.daily_caffeine_limit), totalCaffeine);
 
     res.json({
       date,
+      timezone: req.user!.timezone,
       total_caffeine: totalCaffeine,
+      limit: status.limit,
+      remaining: status.remaining,
+      percent_of_limit: status.percent_of_limit,
       logs: data
     });
-  } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch daily intake' });
-  }
-});
+  });
+
+  // Get intake history rolled up by day, week or month
+  router.get('/history', validate(historySchema), async (
+    req: ValidatedRequest<typeof historySchema>,
+    res: Response
+  ) => {
+    const range = resolveDayRange(req.query, req.user!.timezone, req.user!.tier);
 
-// Get intake history (last 30 days)
-router.get('/history', async (req: AuthRequest, res: any) => {
-  try {
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+    const { granularity } = req.query;
 
-    const { data, error } = await supabase
-      .from('intake_logs')
-      .select('date, total_caffeine')
-      .eq('user_id', req.user!.id)
-      .gte('date', thirtyDaysAgo.toISOString().split('T')[0])
-      .order('date', { ascending: false });
+    const profile = await profiles.findById(req.user!.id);
+    const dailyLimit = resolveDailyLimit(profile?.daily_caffeine_limit);
 
-    if (error) throw error;
+    const data = await intake.listForDays(req.user!.id, range.from, range.to);
 
-    // Group by date and sum caffeine
+    // Group by date first so limits are checked against whole days
     const dailyTotals = data.reduce((acc, log) => {
       if (!acc[log.date]) {
-        acc[log.date] = 0;
+        acc[log.date] = { total: 0, count: 0 };
       }
-      acc[log.date] += log.total_caffeine;
+      acc[log.date].total += log.total_caffeine;
+      acc[log.date].count += 1;
       return acc;
-    }, {} as Record<string, number>);
+    }, {} as Record<string, { total: number; count: number }>);
+
+    const periods = [];
+    for (let start = periodStart(range.from, granularity); start <= range.to; start = addDays(periodEnd(start, granularity), 1)) {
+      // Clip the first and last period to the requested range
+      const from = start < range.from ? range.from : start;
+      const end = periodEnd(start, granularity);
+      const to = end > range.to ? range.to : end;
+
+      let total = 0;
+      let drinkCount = 0;
+      let daysLogged = 0;
+      let daysOverLimit = 0;
+
+      for (let day = from; day <= to; day = addDays(day, 1)) {
+        const totals = dailyTotals[day];
+        if (!totals) continue;
+
+        total += totals.total;
+        drinkCount += totals.count;
+        daysLogged += 1;
+        if (totals.total > dailyLimit) {
+          daysOverLimit += 1;
+        }
+      }
 
-    res.json(dailyTotals);
-  } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch intake history' });
-  }
-});
+      periods.push({
+        period_start: from,
+        period_end: to,
+        total_caffeine: total,
+        drink_count: drinkCount,
+        days_logged: daysLogged,
+        average_daily_caffeine: Math.round(total / daysBetween(from, to)),
+        days_over_limit: daysOverLimit
+      });
+    }
+
+    res.json({
+      from: range.from,
+      to: range.to,
+      granularity,
+      history_limited: range.history_limited,
+      timezone: req.user!.timezone,
+      daily_caffeine_limit: dailyLimit,
+      periods
+    });
+  });
+
+  // Trends, rolling averages, time-of-day and late-day patterns, top drinks and categories, and
+  // streaks within the daily limit, over the last `days` days
+  router.get('/insights', requireFeature('analytics'), validate(insightsSchema), async (
+    req: ValidatedRequest<typeof insightsSchema>,
+    res: Response
+  ) => {
+    const { days, late_hour } = req.query;
+
+    const data = await getInsights(repositories, req.user!, { days, lateHour: late_hour });
+
+    res.json(data);
+  });
+
+  // List raw intake logs with drink details (newest first, cursor-paginated)
+  router.get('/logs', validate(listLogsSchema), async (
+    req: ValidatedRequest<typeof listLogsSchema>,
+    res: Response
+  ) => {
+    const range = resolveDayRange(req.query, req.user!.timezone, req.user!.tier);
+
+    const { limit, cursor } = req.query;
+
+    // Fetch one extra row to know whether another page exists
+    const data = await intake.page(req.user!.id, {
+      from: range.from,
+      to: range.to,
+      cursor,
+      limit: limit + 1
+    });
+
+    const logs = data.slice(0, limit);
+    const hasMore = data.length > limit;
+
+    res.json({
+      logs,
+      history_limited: range.history_limited,
+      next_cursor: hasMore ? encodeCursor(logs[logs.length - 1]) : null
+    });
+  });
 
-// Update intake log
-router.put('/:id', async (req: AuthRequest, res: any) => {
-  try {
+  // Get caffeine currently active in the user's system (exponential decay model)
+  router.get('/active', requireFeature('decay_model'), async (req: AuthRequest, res: Response) => {
+    const now = new Date();
+    const { halfLife, doses } = await getDecayInputs(repositories, req.user!.id, now);
+
+    res.json({
+      as_of: now.toISOString(),
+      current_caffeine: Math.round(activeCaffeineAt(doses, now, halfLife)),
+      half_life_hours: halfLife,
+      curve_interval_minutes: CURVE_INTERVAL_MINUTES,
+      curve_horizon_hours: CURVE_HORIZON_HOURS,
+      curve: decayCurve(doses, now, halfLife)
+    });
+  });
+
+  // Forecast when the user drops below a threshold, optionally simulating a drink (dry-run, nothing is logged)
+  router.post('/forecast', requireFeature('decay_model'), validate(forecastSchema), async (
+    req: ValidatedRequest<typeof forecastSchema>,
+    res: Response
+  ) => {
+    const { threshold, bedtime, drink_id, servings, size, volume, unit, consumed_at } = req.body;
+
+    const bedtimeDate = bedtime ? new Date(bedtime) : null;
+
+    const now = new Date();
+    const { halfLife, doses } = await getDecayInputs(repositories, req.user!.id, now);
+
+    const forecast = (forecastDoses: CaffeineDose[]) => {
+      const belowAt = timeUntilBelow(forecastDoses, now, threshold, halfLife);
+      return {
+        current_caffeine: Math.round(activeCaffeineAt(forecastDoses, now, halfLife)),
+        below_threshold_at: belowAt.toISOString(),
+        caffeine_at_bedtime: bedtimeDate
+          ? Math.round(activeCaffeineAt(forecastDoses, bedtimeDate, halfLife))
+          : null,
+        sleep_ready: bedtimeDate ? belowAt.getTime() <= bedtimeDate.getTime() : null
+      };
+    };
+
+    let simulated = null;
+
+    if (drink_id) {
+      const drink = await drinks.findVisible(req.user!.id, drink_id);
+
+      if (!drink) {
+        throw new NotFoundError('Drink not found', 'drink_not_found');
+      }
+
+      const simulatedDate = consumed_at ? new Date(consumed_at) : now;
+      const amount = resolveAmount(drink, { servings, size, volume, unit });
+
+      const dose: CaffeineDose = {
+        consumed_at: simulatedDate.toISOString(),
+        total_caffeine: amount.total_caffeine
+      };
+
+      simulated = {
+        drink_id: drink.id,
+        name: drink.name,
+        ...amount,
+        consumed_at: dose.consumed_at,
+        total_caffeine: dose.total_caffeine,
+        ...forecast([...doses, dose])
+      };
+    }
+
+    res.json({
+      as_of: now.toISOString(),
+      threshold,
+      bedtime: bedtimeDate ? bedtimeDate.toISOString() : null,
+      half_life_hours: halfLife,
+      ...forecast(doses),
+      simulated
+    });
+  });
+
+  // Update intake log
+  router.put('/:id', validate(updateIntakeSchema), async (
+    req: ValidatedRequest<typeof updateIntakeSchema>,
+    res: Response
+  ) => {
     const { id } = req.params;
-    const { servings, consumed_at, notes } = req.body;
+    const { servings, size, volume, unit, consumed_at, notes } = req.body;
 
     // Get current log to recalculate caffeine
-    const { data: currentLog, error: fetchError } = await supabase
-      .from('intake_logs')
-      .select('*, drinks:drink_id (caffeine_per_serving)')
-      .eq('id', id)
-      .eq('user_id', req.user!.id)
-      .single();
+    const currentLog = await intake.findById(req.user!.id, id);
 
-    if (fetchError || !currentLog) {
-      return res.status(404).json({ error: 'Intake log not found or not authorized' });
+    if (!currentLog) {
+      throw new NotFoundError('Intake log not found or not authorized', 'intake_log_not_found');
     }
 
-    const total_caffeine = Math.round(currentLog.drinks.caffeine_per_serving * servings);
+    // Omitted fields keep their current values. A new serving count is priced from the log's
+    // snapshot; picking a new size or volume reads the drink as it is now.
+    let amount: ResolvedAmount | undefined;
+    if (size !== undefined || volume !== undefined) {
+      if (!currentLog.drinks) {
+        throw new NotFoundError('Drink not found', 'drink_not_found');
+      }
+      amount = resolveAmount(currentLog.drinks, {
+        servings: servings ?? (currentLog.measure === 'volume' ? undefined : currentLog.servings),
+        size,
+        volume,
+        unit
+      });
+    } else if (servings !== undefined) {
+      amount = rescaleServings(currentLog, servings);
+    }
     const consumedDate = consumed_at ? new Date(consumed_at) : new Date(currentLog.consumed_at);
 
-    const { data, error } = await supabase
-      .from('intake_logs')
-      .update({
-        servings,
-        total_caffeine,
-        consumed_at: consumedDate.toISOString(),
-        date: consumedDate.toISOString().split('T')[0],
-        notes
-      })
-      .eq('id', id)
-      .eq('user_id', req.user!.id)
-      .select()
-      .single();
-
-    if (error) throw error;
+    const data = await intake.update(req.user!.id, id, {
+      ...amount,
+      consumed_at: consumedDate.toISOString(),
+      date: toLocalDate(consumedDate, req.user!.timezone),
+      notes
+    });
+
+    // Deleted between the read and the write
+    if (!data) {
+      throw new NotFoundError('Intake log not found or not authorized', 'intake_log_not_found');
+    }
 
     res.json(data);
-  } catch (error) {
-    res.status(500).json({ error: 'Failed to update intake log' });
-  }
-});
+  });
 
-// Delete intake log
-router.delete('/:id', async (req: AuthRequest, res: any) => {
-  try {
+  // Confirm a pending log, checked against the daily limit like a new one
+  router.post('/:id/confirm', validate(confirmIntakeSchema), async (
+    req: ValidatedRequest<typeof confirmIntakeSchema>,
+    res: Response
+  ) => {
     const { id } = req.params;
 
-    const { error } = await supabase
-      .from('intake_logs')
-      .delete()
-      .eq('id', id)
-      .eq('user_id', req.user!.id);
+    const currentLog = await intake.findById(req.user!.id, id);
 
-    if (error) throw error;
+    if (!currentLog) {
+      throw new NotFoundError('Intake log not found or not authorized', 'intake_log_not_found');
+    }
+    if (currentLog.status !== 'pending') {
+      throw new ConflictError('Intake log is not pending', 'intake_log_not_pending');
+    }
+
+    const profile = await profiles.findById(req.user!.id);
+    const dayLogs = await intake.listForDay(req.user!.id, currentLog.date);
+
+    const dayTotal = dayLogs.reduce((sum, log) => sum + log.total_caffeine, 0);
+    const limit_status = limitStatus(resolveDailyLimit(profile?.daily_caffeine_limit), dayTotal, currentLog.total_caffeine);
+
+    if (limit_status.exceeds_limit && profile?.strict_limit_mode && !req.body.override_limit) {
+      throw new ConflictError('Daily caffeine limit would be exceeded', 'daily_limit_exceeded', { limit_status });
+    }
+
+    const data = await intake.update(req.user!.id, id, { status: 'logged' }, { ifStatus: 'pending' });
+
+    // Confirmed, dismissed or deleted between the read and the write
+    if (!data) {
+      throw new ConflictError('Intake log is not pending', 'intake_log_not_pending');
+    }
+
+    res.json({ ...data, limit_status });
+  });
+
+  // Dismiss a pending log the user didn't drink
+  router.post('/:id/dismiss', validate(dismissIntakeSchema), async (
+    req: ValidatedRequest<typeof dismissIntakeSchema>,
+    res: Response
+  ) => {
+    const { id } = req.params;
+
+    const currentLog = await intake.findById(req.user!.id, id);
+
+    if (!currentLog) {
+      throw new NotFoundError('Intake log not found or not authorized', 'intake_log_not_found');
+    }
+    if (currentLog.status !== 'pending') {
+      throw new ConflictError('Intake log is not pending', 'intake_log_not_pending');
+    }
+
+    // Confirmed, dismissed or deleted between the read and the write
+    if (!(await intake.delete(req.user!.id, id))) {
+      throw new NotFoundError('Intake log not found or not authorized', 'intake_log_not_found');
+    }
+
+    res.json({ message: 'Pending log dismissed' });
+  });
+
+  // Delete intake log
+  router.delete('/:id', validate(deleteIntakeSchema), async (
+    req: ValidatedRequest<typeof deleteIntakeSchema>,
+    res: Response
+  ) => {
+    const { id } = req.params;
+
+    const deleted = await intake.delete(req.user!.id, id);
+
+    if (!deleted) {
+      throw new NotFoundError('Intake log not found or not authorized', 'intake_log_not_found');
+    }
 
     res.json({ message: 'Intake log deleted successfully' });
-  } catch (error) {
-    res.status(500).json({ error: 'Failed to delete intake log' });
-  }
-});
+  });
 
-export default router;
\ No newline at end of file
+  return router;
+};
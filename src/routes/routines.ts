@@ -0,0 +1,134 @@
+// src/routes/routines.ts
+// Saved routines ("my morning routine"): drinks the user logs together, on demand or on a schedule
+import express, { Response } from 'express';
+import type { AppDependencies } from '../app';
+import { createAuthenticateUser, AuthRequest } from '../middleware/auth';
+import { ValidatedRequest, validate } from '../middleware/validate';
+import { ConflictError, NotFoundError, ValidationError } from '../errors';
+import { assertRoutineItems, logRoutine } from '../services/routines';
+import {
+  MAX_ROUTINES,
+  createRoutineSchema,
+  logRoutineSchema,
+  routineSchema,
+  updateRoutineSchema
+} from '../validation/routines';
+
+export const createRoutinesRouter = ({ repositories, auth, billing }: AppDependencies) => {
+  const router = express.Router();
+  const { profiles, routines } = repositories;
+
+  const findRoutine = async (userId: string, id: string) => {
+    const routine = await routines.findById(userId, id);
+
+    if (!routine) {
+      throw new NotFoundError('Routine not found', 'routine_not_found');
+    }
+
+    return routine;
+  };
+
+  // Apply authentication to all routes
+  router.use(createAuthenticateUser(auth, profiles, billing));
+
+  // List the user's routines
+  router.get('/', async (req: AuthRequest, res: Response) => {
+    const data = await routines.list(req.user!.id);
+
+    res.json(data);
+  });
+
+  // Save a routine. With auto_log on, its scheduled items are added as pending logs from now on.
+  router.post('/', validate(createRoutineSchema), async (
+    req: ValidatedRequest<typeof createRoutineSchema>,
+    res: Response
+  ) => {
+    const count = await routines.count(req.user!.id);
+
+    if (count >= MAX_ROUTINES) {
+      throw new ConflictError(`Accounts can have up to ${MAX_ROUTINES} routines`, 'routine_limit', {
+        max_routines: MAX_ROUTINES
+      });
+    }
+
+    await assertRoutineItems(repositories, req.user!.id, req.body.items);
+
+    const data = await routines.create(req.user!.id, {
+      ...req.body,
+      scheduled_through: req.body.auto_log ? new Date().toISOString() : null
+    });
+
+    res.status(201).json(data);
+  });
+
+  // Get a single routine
+  router.get('/:id', validate(routineSchema), async (
+    req: ValidatedRequest<typeof routineSchema>,
+    res: Response
+  ) => {
+    const data = await findRoutine(req.user!.id, req.params.id);
+
+    res.json(data);
+  });
+
+  // Update a routine; omitted fields keep their current values
+  router.put('/:id', validate(updateRoutineSchema), async (
+    req: ValidatedRequest<typeof updateRoutineSchema>,
+    res: Response
+  ) => {
+    const { id } = req.params;
+    const { items, weekdays, auto_log } = req.body;
+
+    const current = await findRoutine(req.user!.id, id);
+
+    // The schema only sees the fields sent; check the result against the stored ones too
+    if ((auto_log ?? current.auto_log) && (weekdays ?? current.weekdays).length === 0) {
+      throw new ValidationError({ auto_log: 'requires at least one weekday' });
+    }
+
+    if (items) {
+      await assertRoutineItems(repositories, req.user!.id, items);
+    }
+
+    // Turning auto_log on starts the schedule from now, not from when it was last on
+    const data = await routines.update(req.user!.id, id, {
+      ...req.body,
+      scheduled_through: auto_log && !current.auto_log ? new Date().toISOString() : undefined
+    });
+
+    // Deleted between the read and the write
+    if (!data) {
+      throw new NotFoundError('Routine not found', 'routine_not_found');
+    }
+
+    res.json(data);
+  });
+
+  // Delete a routine. Logs it already added are kept.
+  router.delete('/:id', validate(routineSchema), async (
+    req: ValidatedRequest<typeof routineSchema>,
+    res: Response
+  ) => {
+    const data = await routines.delete(req.user!.id, req.params.id);
+
+    if (!data) {
+      throw new NotFoundError('Routine not found', 'routine_not_found');
+    }
+
+    res.json({ message: 'Routine deleted successfully' });
+  });
+
+  // Log every item of the routine now, in one call
+  router.post('/:id/log', validate(logRoutineSchema), async (
+    req: ValidatedRequest<typeof logRoutineSchema>,
+    res: Response
+  ) => {
+    const routine = await findRoutine(req.user!.id, req.params.id);
+
+    const data = await logRoutine(repositories, req.user!, routine, { overrideLimit: req.body.override_limit });
+
+    res.status(201).json(data);
+  });
+
+  return router;
+};
@@ -1,290 +1,340 @@
-// src/routes/subscription.ts - Fixed with proper validation, no trial
-import express from 'express';
-import { stripe, supabase } from '../app';
-import { authenticateUser, AuthRequest } from '../middleware/auth';
-
-const router = express.Router();
-
-// Helper function to convert timestamp to ISO string with validation
-const timestampToISOString = (timestamp: number | undefined | null): string | null => {
-  if (!timestamp || typeof timestamp !== 'number' || isNaN(timestamp)) {
-    console.warn('Invalid timestamp received:', timestamp);
-    return null;
-  }
-
-  try {
-    const date = new Date(timestamp * 1000);
-    if (isNaN(date.getTime())) {
-      console.warn('Invalid date created from timestamp:', timestamp);
-      return null;
-    }
-    return date.toISOString();
-  } catch (error) {
-    console.error('Error converting timestamp to ISO string:', timestamp, error);
-    return null;
-  }
-};
-
-// Create setup intent
-router.post('/setup-intent', authenticateUser as any, async (req: AuthRequest, res): Promise<void> => {
-  try {
-    const { data: profile } = await supabase
-      .from('user_profiles')
-      .select('stripe_customer_id')
-      .eq('id', req.user!.id)
-      .single();
+// src/routes/subscription.ts
+// Plans, checkout, billing history and payment methods, and the Stripe webhook that keeps
+// subscription state in sync
+import express, { Response } from 'express';
+import type { AppDependencies } from '../app';
+import { createAuthenticateUser, AuthRequest } from '../middleware/auth';
+import { ValidatedRequest, validate } from '../middleware/validate';
+import {
+  SubscriptionState,
+  normalizeStatus,
+  stateFromSubscription,
+  timestampToISOString,
+  updateSubscriptionState
+} from '../services/subscription';
+import { listPlans, resolvePlan } from '../services/plans';
+import { BillingEvent, Discount, WebhookSignatureError } from '../billing/provider';
+import { BadRequestError, ConflictError, NotFoundError } from '../errors';
+import { logger } from '../utils/logger';
+import { tierFor } from '../services/entitlements';
+import {
+  changePlanSchema,
+  createSubscriptionSchema,
+  defaultPaymentMethodSchema,
+  listInvoicesSchema,
+  paymentMethodParams,
+  updatePaymentMethodSchema
+} from '../validation/subscription';
+
+// Read lazily: this module is imported before app.ts loads .env
+const trialDays = (): number => parseInt(process.env.STRIPE_TRIAL_DAYS || '7', 10);
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// The webhook handler is returned alongside the router because app.ts mounts it
+// separately, ahead of the JSON body parser
+export const createSubscriptionRoutes = ({ repositories, billing, auth }: AppDependencies) => {
+  const router = express.Router();
+  const { profiles, webhookEvents } = repositories;
+  const authenticateUser = createAuthenticateUser(auth, profiles, billing);
+
+  // Create setup intent
+  router.post('/setup-intent', authenticateUser, async (req: AuthRequest, res: Response): Promise<void> => {
+    const profile = await profiles.findById(req.user!.id);
 
     let customer_id = '';
 
     if (profile?.stripe_customer_id) {
       customer_id = profile.stripe_customer_id;
     } else {
-      const customer = await stripe.customers.create({
+      const customer = await billing.createCustomer({
         email: req.user!.email,
         metadata: { user_id: req.user!.id },
       });
       customer_id = customer.id;
 
-      await supabase
-        .from('user_profiles')
-        .upsert({
-          id: req.user!.id,
-          email: req.user!.email,
-          stripe_customer_id: customer_id,
-        });
+      await profiles.upsert(req.user!.id, {
+        email: req.user!.email,
+        stripe_customer_id: customer_id,
+      });
     }
 
-    const setupIntent = await stripe.setupIntents.create({
-      customer: customer_id,
-      payment_method_types: ['card'],
-      usage: 'off_session',
-    });
+    const setupIntent = await billing.createSetupIntent(customer_id);
 
     res.json({
       client_secret: setupIntent.client_secret,
       customer_id: customer_id,
       setup_intent_id: setupIntent.id,
     });
-  } catch (error) {
-    console.error('Setup intent error:', error);
-    res.status(500).json({ error: 'Failed to create setup intent' });
-  }
-});
-
-// Create subscription
-router.post('/create', authenticateUser as any, async (req: AuthRequest, res): Promise<void> => {
-  try {
-    const { customer_id, setup_intent_id } = req.body;
-
-    if (!customer_id) {
-      res.status(400).json({ error: 'customer_id is required' });
-      return;
+  });
+
+  // Retrieve a payment method, but only if it belongs to the given customer
+  const getOwnedPaymentMethod = async (customerId: string, paymentMethodId: string) => {
+    const paymentMethod = await billing.getPaymentMethod(paymentMethodId);
+    return paymentMethod?.customer_id === customerId ? paymentMethod : null;
+  };
+
+  // Make a card the default for future invoices and for the current subscription
+  const setDefaultPaymentMethod = async (customerId: string, subscriptionId: string | null, paymentMethodId: string) => {
+    await billing.setDefaultPaymentMethod(customerId, paymentMethodId);
+
+    if (subscriptionId) {
+      await billing.updateSubscription(subscriptionId, {
+        default_payment_method: paymentMethodId,
+      });
+    }
+  };
+
+  // Build discounts from a customer-facing promotion code or an internal coupon ID
+  const resolveDiscounts = async (
+    promotion_code?: string,
+    coupon?: string
+  ): Promise<{ discounts?: Discount[]; error?: string }> => {
+    if (promotion_code) {
+      const promotionCodeId = await billing.findPromotionCode(promotion_code);
+      if (!promotionCodeId) {
+        return { error: 'Invalid or expired promotion code' };
+      }
+      return { discounts: [{ promotion_code: promotionCodeId }] };
+    }
+
+    if (coupon) {
+      return { discounts: [{ coupon }] };
+    }
+
+    return {};
+  };
+
+  // List available plans
+  router.get('/plans', authenticateUser, async (req: AuthRequest, res: Response): Promise<void> => {
+    res.json({ plans: await listPlans(billing) });
+  });
+
+  // Create subscription (or purchase lifetime access)
+  router.post('/create', authenticateUser, validate(createSubscriptionSchema), async (
+    req: ValidatedRequest<typeof createSubscriptionSchema>,
+    res: Response
+  ): Promise<void> => {
+    const { setup_intent_id, plan: planId, price_id, promotion_code, coupon, trial } = req.body;
+
+    const plan = resolvePlan(planId, price_id);
+    if (!plan) {
+      throw new BadRequestError('Unknown plan or price_id', 'unknown_plan');
+    }
+
+    // Cards are saved to the customer /setup-intent created for this user, and only that one is charged
+    const profile = await profiles.findById(req.user!.id);
+    if (!profile?.stripe_customer_id) {
+      throw new BadRequestError('No payment method found', 'payment_method_required');
+    }
+    const customer_id = profile.stripe_customer_id;
+
+    // Subscribing again would bill twice and orphan the first subscription; switching plans
+    // goes through /change-plan. Recurring subscribers may still upgrade to lifetime.
+    const hasLifetime = profile.subscription_plan === 'lifetime' && profile.subscription_status === 'active';
+    if (hasLifetime || (profile.subscription_id && plan.billing === 'recurring')) {
+      throw new ConflictError('Already subscribed', 'subscription_exists', {
+        status: normalizeStatus(profile.subscription_status),
+        plan: profile.subscription_plan ?? null
+      });
     }
 
     // Get payment method
-    let defaultPaymentMethod = null;
+    let defaultPaymentMethod: string | null = null;
 
     if (setup_intent_id) {
-      const setupIntent = await stripe.setupIntents.retrieve(setup_intent_id);
-      if (setupIntent.payment_method && setupIntent.status === 'succeeded') {
-        defaultPaymentMethod = setupIntent.payment_method;
+      defaultPaymentMethod = await billing.getSetupIntentPaymentMethod(setup_intent_id);
+
+      if (defaultPaymentMethod && !(await getOwnedPaymentMethod(customer_id, defaultPaymentMethod))) {
+        throw new BadRequestError('No valid payment method provided', 'payment_method_required');
       }
     }
 
+    // Fall back to the card the customer chose as default, then to any saved card
     if (!defaultPaymentMethod) {
-      const paymentMethods = await stripe.paymentMethods.list({
-        customer: customer_id,
-        type: 'card',
-      });
-      if (paymentMethods.data.length > 0) {
-        defaultPaymentMethod = paymentMethods.data[0].id;
+      defaultPaymentMethod = await billing.getDefaultPaymentMethod(customer_id);
+    }
+
+    if (!defaultPaymentMethod) {
+      const paymentMethods = await billing.listPaymentMethods(customer_id);
+      if (paymentMethods.length > 0) {
+        defaultPaymentMethod = paymentMethods[0].id;
       }
     }
 
     if (!defaultPaymentMethod) {
-      res.status(400).json({ error: 'No payment method found' });
-      return;
+      throw new BadRequestError('No payment method found', 'payment_method_required');
     }
 
-    // Create subscription
-    const subscription = await stripe.subscriptions.create({
-      customer: customer_id,
-      items: [{ price: process.env.STRIPE_PRICE_ID }],
-      default_payment_method: defaultPaymentMethod as string,
-      payment_behavior: 'error_if_incomplete',
-      expand: ['latest_invoice.payment_intent'],
-    });
+    if (plan.billing === 'one_time') {
+      if (promotion_code || coupon) {
+        throw new BadRequestError('Promotion codes are not supported for lifetime access', 'promotion_not_supported');
+      }
 
-    if (subscription.status === 'active') {
-      // FIXED: Use current_period_end directly if available, fallback to calculation
-      let periodEnd = (subscription as any).current_period_end;
+      const price = await billing.getPrice(plan.priceId);
+      const paymentIntent = await billing.chargeOnce({
+        amount: price.amount,
+        currency: price.currency,
+        customer_id,
+        payment_method_id: defaultPaymentMethod,
+        metadata: { user_id: req.user!.id, plan: plan.id },
+      });
 
-      if (!periodEnd && (subscription as any).billing_cycle_anchor) {
-        const billingAnchor = (subscription as any).billing_cycle_anchor;
-        // Add 1 month (30 days) to billing anchor for monthly subscription
-        periodEnd = billingAnchor + (30 * 24 * 60 * 60); // 30 days in seconds
-        console.log('Calculated period_end from billing_cycle_anchor:', periodEnd);
+      if (paymentIntent.status !== 'succeeded') {
+        logger.warn('lifetime payment not completed', {
+          request_id: res.locals.request_id,
+          user_id: req.user!.id,
+          payment_intent_status: paymentIntent.status,
+        });
+        throw new BadRequestError('Payment failed', 'payment_incomplete');
       }
 
-      // FIXED: Only process if we have a valid periodEnd
-      let expiresAt = null;
-      if (periodEnd) {
-        expiresAt = timestampToISOString(periodEnd);
+      // Lifetime replaces any recurring subscription; unused time is credited to the customer balance
+      if (profile.subscription_id) {
+        await billing.cancelSubscription(profile.subscription_id, { prorate: true });
       }
 
-      const updateData: any = {
-        subscription_id: subscription.id,
-        subscription_status: subscription.status,
-      };
+      await updateSubscriptionState(
+        profiles,
+        { user_id: req.user!.id },
+        { status: 'active', subscription_id: null, expires_at: null, plan: plan.id },
+        { purchase: true }
+      );
 
-      // Only set expires_at if we have a valid date
-      if (expiresAt) {
-        updateData.subscription_expires_at = expiresAt;
-      }
+      res.json({
+        plan: plan.id,
+        status: 'active',
+        payment_intent_id: paymentIntent.id,
+        expires_at: null,
+      });
+      return;
+    }
+
+    // One free trial per account
+    if (trial && profile.trial_used) {
+      throw new BadRequestError('Free trial has already been used', 'trial_already_used');
+    }
 
-      const { error: updateError } = await supabase
-        .from('user_profiles')
-        .update(updateData)
-        .eq('id', req.user!.id);
+    const { discounts, error: discountError } = await resolveDiscounts(promotion_code, coupon);
+    if (discountError) {
+      throw new BadRequestError(discountError, 'invalid_discount');
+    }
 
-      if (updateError) {
-        console.error('Error updating user profile:', updateError);
+    // Create subscription
+    const subscription = await billing.createSubscription({
+      customer_id,
+      price_id: plan.priceId,
+      payment_method_id: defaultPaymentMethod,
+      discounts,
+      trial_days: trial ? trialDays() : undefined,
+    });
+
+    if (subscription.status === 'active' || subscription.status === 'trialing') {
+      const periodEnd = subscription.current_period_end;
+
+      try {
+        await updateSubscriptionState(
+          profiles,
+          { user_id: req.user!.id },
+          { ...stateFromSubscription(subscription), ...(trial ? { trial_used: true } : {}) },
+          { purchase: true }
+        );
+      } catch (updateError) {
+        // The webhook for this subscription will bring the profile up to date
+        logger.error('subscription profile update failed', {
+          request_id: res.locals.request_id,
+          user_id: req.user!.id,
+          error: updateError,
+        });
       }
 
       res.json({
         subscription_id: subscription.id,
+        plan: plan.id,
         status: subscription.status,
         current_period_end: periodEnd,
-        expires_at: expiresAt,
+        trial_ends_at: timestampToISOString(subscription.trial_end),
+        expires_at: timestampToISOString(periodEnd),
       });
     } else {
-      console.log('Subscription not active, status:', subscription.status);
-      res.status(400).json({ error: 'Subscription creation failed' });
-    }
-  } catch (error: any) {
-    console.error('Subscription creation error:', error);
-    res.status(500).json({ error: 'Failed to create subscription' });
-  }
-});
-
-// Get subscription status
-router.get('/status', authenticateUser as any, async (req: AuthRequest, res): Promise<void> => {
-  try {
-    const { data: profile } = await supabase
-      .from('user_profiles')
-      .select('*')
-      .eq('id', req.user!.id)
-      .single();
-
-    if (!profile?.subscription_id) {
-      res.json({ status: 'inactive' });
-      return;
+      logger.warn('subscription not active after creation', {
+        request_id: res.locals.request_id,
+        user_id: req.user!.id,
+        subscription_status: subscription.status,
+      });
+      throw new BadRequestError('Subscription creation failed', 'subscription_incomplete');
     }
+  });
 
-    const subscription = await stripe.subscriptions.retrieve(profile.subscription_id);
+  // Get subscription status
+  router.get('/status', authenticateUser, async (req: AuthRequest, res: Response): Promise<void> => {
+    const profile = await profiles.findById(req.user!.id);
 
-    if (subscription.status === 'active') {
-      let periodEnd = (subscription as any).current_period_end;
-      const cancelAtPeriodEnd = (subscription as any).cancel_at_period_end;
+    const trialAvailable = !profile?.trial_used;
 
-      // FIXED: Better fallback handling
-      if (!periodEnd && (subscription as any).billing_cycle_anchor) {
-        const billingAnchor = (subscription as any).billing_cycle_anchor;
-        periodEnd = billingAnchor + (30 * 24 * 60 * 60);
-      }
-
-      // FIXED: Only process timestamp if valid
-      let expiresAt = null;
-      if (periodEnd) {
-        expiresAt = timestampToISOString(periodEnd);
-      }
-
-      // Determine the correct status
-      let status = 'active';
-      if (cancelAtPeriodEnd) {
-        status = 'active_until_period_end';
-      }
-
-      // Update database with current status only if we have valid data
-      const updateData: any = {
-        subscription_status: status,
-      };
+    // Lifetime access has no Stripe subscription behind it
+    if (profile?.subscription_plan === 'lifetime' && profile.subscription_status === 'active') {
+      res.json({ status: 'active', tier: 'premium', plan: 'lifetime', expires_at: null, will_renew: false });
+      return;
+    }
 
-      if (expiresAt && expiresAt !== profile.subscription_expires_at) {
-        updateData.subscription_expires_at = expiresAt;
-      }
+    if (!profile?.subscription_id) {
+      res.json({ status: 'inactive', tier: 'free', trial_available: trialAvailable });
+      return;
+    }
 
-      if (Object.keys(updateData).length > 1 || updateData.subscription_status !== profile.subscription_status) {
-        await supabase
-          .from('user_profiles')
-          .update(updateData)
-          .eq('id', req.user!.id);
-      }
+    const subscription = await billing.getSubscription(profile.subscription_id);
+    const result = await updateSubscriptionState(profiles, { user_id: req.user!.id }, stateFromSubscription(subscription));
+    const now = billing.now() * 1000;
+    const tier = tierFor(result.status, result.expires_at, profile.subscription_plan, new Date(now));
 
+    if (result.status === 'trialing') {
+      const trialEndsAt = timestampToISOString(subscription.trial_end);
       res.json({
-        status: status,
-        current_period_end: periodEnd,
-        cancel_at_period_end: cancelAtPeriodEnd,
-        expires_at: expiresAt,
-        will_renew: !cancelAtPeriodEnd
+        status: result.status,
+        tier,
+        plan: profile.subscription_plan ?? null,
+        trial_ends_at: trialEndsAt,
+        trial_days_remaining: trialEndsAt
+          ? Math.max(Math.ceil((new Date(trialEndsAt).getTime() - now) / MS_PER_DAY), 0)
+          : 0,
+        cancel_at_period_end: subscription.cancel_at_period_end,
+        expires_at: result.expires_at,
+        will_renew: !subscription.cancel_at_period_end
+      });
+    } else if (result.status === 'active' || result.status === 'active_until_period_end') {
+      res.json({
+        status: result.status,
+        tier,
+        plan: profile.subscription_plan ?? null,
+        current_period_end: subscription.current_period_end,
+        cancel_at_period_end: subscription.cancel_at_period_end,
+        expires_at: result.expires_at,
+        will_renew: !subscription.cancel_at_period_end
       });
     } else {
-      // Subscription is no longer active
-      await supabase
-        .from('user_profiles')
-        .update({
-          subscription_status: 'inactive',
-          subscription_id: null,
-          subscription_expires_at: null,
-        })
-        .eq('id', req.user!.id);
-
-      res.json({ status: 'inactive' });
-    }
-  } catch (error) {
-    console.error('Get subscription status error:', error);
-    res.status(500).json({ error: 'Failed to get subscription status' });
-  }
-});
-
-// Cancel subscription
-router.post('/cancel', authenticateUser as any, async (req: AuthRequest, res): Promise<void> => {
-  try {
-    const { data: profile } = await supabase
-      .from('user_profiles')
-      .select('subscription_id')
-      .eq('id', req.user!.id)
-      .single();
+      res.json({ status: result.status, tier, expires_at: result.expires_at, trial_available: trialAvailable });
+    }
+  });
+
+  // Cancel subscription
+  router.post('/cancel', authenticateUser, async (req: AuthRequest, res: Response): Promise<void> => {
+    const profile = await profiles.findById(req.user!.id);
 
     if (!profile?.subscription_id) {
-      res.status(404).json({ error: 'No active subscription found' });
-      return;
+      throw new NotFoundError('No active subscription found', 'subscription_not_found');
     }
 
     // Schedule cancellation at period end (user keeps access)
-    const subscription = await stripe.subscriptions.update(profile.subscription_id, {
+    const subscription = await billing.updateSubscription(profile.subscription_id, {
       cancel_at_period_end: true,
     });
 
     // Update database to show cancellation is scheduled
-    await supabase
-      .from('user_profiles')
-      .update({
-        subscription_status: 'active_until_period_end',
-      })
-      .eq('id', req.user!.id);
-
-    // FIXED: Handle undefined current_period_end properly
-    let periodEnd = (subscription as any).current_period_end;
+    await updateSubscriptionState(profiles, { user_id: req.user!.id }, stateFromSubscription(subscription));
 
-    // Use billing_cycle_anchor as fallback if current_period_end is undefined
-    if (!periodEnd && (subscription as any).billing_cycle_anchor) {
-      const billingAnchor = (subscription as any).billing_cycle_anchor;
-      periodEnd = billingAnchor + (30 * 24 * 60 * 60); // Add 30 days
-    }
-
-    // Only convert to ISO string if we have a valid period end
-    const periodEndDate = periodEnd ? timestampToISOString(periodEnd) : null;
+    const periodEnd = subscription.current_period_end;
+    const periodEndDate = timestampToISOString(periodEnd);
 
     res.json({
       message: 'Subscription cancelled - access until period end',
@@ -293,116 +343,361 @@ router.post('/cancel', authenticateUser as any, async (req: AuthRequest, res): P
       access_until: periodEndDate,
       status: 'active_until_period_end'
     });
-  } catch (error) {
-    console.error('Cancel subscription error:', error);
-    res.status(500).json({ error: 'Failed to cancel subscription' });
-  }
-});
-
-router.post('/reactivate', authenticateUser as any, async (req: AuthRequest, res): Promise<void> => {
-  try {
-    const { data: profile } = await supabase
-      .from('user_profiles')
-      .select('subscription_id')
-      .eq('id', req.user!.id)
-      .single();
+  });
+
+  router.post('/reactivate', authenticateUser, async (req: AuthRequest, res: Response): Promise<void> => {
+    const profile = await profiles.findById(req.user!.id);
 
     if (!profile?.subscription_id) {
-      res.status(404).json({ error: 'No subscription found' });
-      return;
+      throw new NotFoundError('No subscription found', 'subscription_not_found');
     }
 
     // Remove the cancellation
-    const subscription = await stripe.subscriptions.update(profile.subscription_id, {
+    const subscription = await billing.updateSubscription(profile.subscription_id, {
       cancel_at_period_end: false,
     });
 
     // Update database
-    await supabase
-      .from('user_profiles')
-      .update({
-        subscription_status: 'active',
-      })
-      .eq('id', req.user!.id);
+    await updateSubscriptionState(profiles, { user_id: req.user!.id }, stateFromSubscription(subscription));
 
     res.json({
       message: 'Subscription reactivated successfully',
       status: 'active',
       will_renew: true
     });
-  } catch (error) {
-    console.error('Reactivate subscription error:', error);
-    res.status(500).json({ error: 'Failed to reactivate subscription' });
-  }
-});
+  });
+
+  // Switch between recurring plans. With `preview: true` nothing changes; the response shows the
+  // prorated amount, and passing its `proration_date` back when applying charges exactly that amount.
+  router.post('/change-plan', authenticateUser, validate(changePlanSchema), async (
+    req: ValidatedRequest<typeof changePlanSchema>,
+    res: Response
+  ): Promise<void> => {
+    const { plan: planId, price_id, preview, proration_date } = req.body;
+
+    const plan = resolvePlan(planId, price_id);
+    if (!plan) {
+      throw new BadRequestError('Unknown plan or price_id', 'unknown_plan');
+    }
 
-// Webhook handler
-router.post('/webhook', express.raw({ type: 'application/json' }), async (req, res) => {
-  const sig = req.headers['stripe-signature'];
+    if (plan.billing !== 'recurring') {
+      throw new BadRequestError('Lifetime access is purchased through /create', 'plan_not_recurring');
+    }
 
-  try {
-    const event = stripe.webhooks.constructEvent(
-      req.body,
-      sig!,
-      process.env.STRIPE_WEBHOOK_SECRET!
-    );
+    const profile = await profiles.findById(req.user!.id);
 
-    const eventObject = event.data.object as any;
+    if (!profile?.subscription_id) {
+      throw new NotFoundError('No active subscription found', 'subscription_not_found');
+    }
 
+    const current = await billing.getSubscription(profile.subscription_id);
+
+    if (current.price_id === plan.priceId) {
+      throw new BadRequestError('Already subscribed to this plan', 'already_on_plan');
+    }
+
+    const prorationDate = typeof proration_date === 'number' ? proration_date : billing.now();
+
+    if (preview) {
+      const invoice = await billing.previewInvoice(profile.stripe_customer_id!, current.id, {
+        price_id: plan.priceId,
+        proration_date: prorationDate,
+      });
+
+      res.json({
+        plan: plan.id,
+        proration_date: prorationDate,
+        amount_due: invoice.amount_due,
+        currency: invoice.currency,
+        lines: invoice.lines.map((line) => ({
+          description: line.description,
+          amount: line.amount,
+          period_start: timestampToISOString(line.period_start),
+          period_end: timestampToISOString(line.period_end),
+        })),
+      });
+      return;
+    }
+
+    // Prorations are invoiced immediately: upgrades are charged now, downgrades become account credit
+    const subscription = await billing.updateSubscription(current.id, {
+      price_id: plan.priceId,
+      proration_date: prorationDate,
+    });
+
+    const result = await updateSubscriptionState(profiles, { user_id: req.user!.id }, stateFromSubscription(subscription));
+
+    res.json({
+      subscription_id: subscription.id,
+      plan: plan.id,
+      status: result.status,
+      current_period_end: subscription.current_period_end,
+      expires_at: result.expires_at,
+    });
+  });
+
+  // List invoices (newest first) with PDF links, plus the next upcoming charge
+  router.get('/invoices', authenticateUser, validate(listInvoicesSchema), async (
+    req: ValidatedRequest<typeof listInvoicesSchema>,
+    res: Response
+  ): Promise<void> => {
+    const { limit, starting_after } = req.query;
+
+    const profile = await profiles.findById(req.user!.id);
+    if (!profile?.stripe_customer_id) {
+      res.json({ invoices: [], upcoming: null, has_more: false });
+      return;
+    }
+
+    const invoices = await billing.listInvoices(profile.stripe_customer_id, {
+      limit,
+      starting_after,
+    });
+
+    // Only subscriptions that will renew have an upcoming invoice
+    let upcoming = null;
+    if (profile.subscription_id && ['trialing', 'active', 'past_due'].includes(normalizeStatus(profile.subscription_status))) {
+      const preview = await billing.previewInvoice(profile.stripe_customer_id, profile.subscription_id);
+      upcoming = {
+        amount_due: preview.amount_due,
+        currency: preview.currency,
+        next_payment_attempt: timestampToISOString(preview.next_payment_attempt),
+        period_start: timestampToISOString(preview.period_start),
+        period_end: timestampToISOString(preview.period_end),
+      };
+    }
+
+    res.json({
+      invoices: invoices.data.map((invoice) => ({
+        id: invoice.id,
+        number: invoice.number,
+        status: invoice.status,
+        amount_due: invoice.amount_due,
+        amount_paid: invoice.amount_paid,
+        currency: invoice.currency,
+        created: timestampToISOString(invoice.created),
+        period_start: timestampToISOString(invoice.period_start),
+        period_end: timestampToISOString(invoice.period_end),
+        hosted_invoice_url: invoice.hosted_invoice_url,
+        invoice_pdf: invoice.invoice_pdf,
+      })),
+      upcoming,
+      has_more: invoices.has_more,
+    });
+  });
+
+  // List saved cards
+  router.get('/payment-methods', authenticateUser, async (req: AuthRequest, res: Response): Promise<void> => {
+    const profile = await profiles.findById(req.user!.id);
+    if (!profile?.stripe_customer_id) {
+      res.json({ payment_methods: [] });
+      return;
+    }
+
+    const [paymentMethods, defaultPaymentMethod] = await Promise.all([
+      billing.listPaymentMethods(profile.stripe_customer_id),
+      billing.getDefaultPaymentMethod(profile.stripe_customer_id),
+    ]);
+
+    res.json({
+      payment_methods: paymentMethods.map((paymentMethod) => ({
+        id: paymentMethod.id,
+        brand: paymentMethod.brand,
+        last4: paymentMethod.last4,
+        exp_month: paymentMethod.exp_month,
+        exp_year: paymentMethod.exp_year,
+        is_default: paymentMethod.id === defaultPaymentMethod,
+      })),
+    });
+  });
+
+  // Set the default card
+  router.post('/payment-methods/default', authenticateUser, validate(defaultPaymentMethodSchema), async (
+    req: ValidatedRequest<typeof defaultPaymentMethodSchema>,
+    res: Response
+  ): Promise<void> => {
+    const { payment_method_id } = req.body;
+
+    const profile = await profiles.findById(req.user!.id);
+    if (!profile?.stripe_customer_id || !(await getOwnedPaymentMethod(profile.stripe_customer_id, payment_method_id))) {
+      throw new NotFoundError('Payment method not found', 'payment_method_not_found');
+    }
+
+    await setDefaultPaymentMethod(profile.stripe_customer_id, profile.subscription_id, payment_method_id);
+
+    res.json({ message: 'Default payment method updated', payment_method_id });
+  });
+
+  // Remove a saved card
+  router.delete('/payment-methods/:id', authenticateUser, validate(paymentMethodParams), async (
+    req: ValidatedRequest<typeof paymentMethodParams>,
+    res: Response
+  ): Promise<void> => {
+    const { id } = req.params;
+
+    const profile = await profiles.findById(req.user!.id);
+    if (!profile?.stripe_customer_id || !(await getOwnedPaymentMethod(profile.stripe_customer_id, id))) {
+      throw new NotFoundError('Payment method not found', 'payment_method_not_found');
+    }
+
+    // Renewals would fail without a card, so the default can't be removed while subscribed
+    if (profile.subscription_id && id === (await billing.getDefaultPaymentMethod(profile.stripe_customer_id))) {
+      throw new ConflictError('Set another default payment method before removing this one', 'default_payment_method_in_use');
+    }
+
+    await billing.detachPaymentMethod(id);
+
+    res.json({ message: 'Payment method removed' });
+  });
+
+  // Replace the card on a past_due subscription and retry the outstanding invoice with it
+  router.post('/update-payment-method', authenticateUser, validate(updatePaymentMethodSchema), async (
+    req: ValidatedRequest<typeof updatePaymentMethodSchema>,
+    res: Response
+  ): Promise<void> => {
+    const { setup_intent_id, payment_method_id } = req.body;
+
+    const profile = await profiles.findById(req.user!.id);
+    if (!profile?.stripe_customer_id || !profile.subscription_id) {
+      throw new NotFoundError('No subscription found', 'subscription_not_found');
+    }
+
+    let paymentMethodId: string | null = payment_method_id ?? null;
+    if (setup_intent_id) {
+      paymentMethodId = (await billing.getSetupIntentPaymentMethod(setup_intent_id)) ?? paymentMethodId;
+    }
+
+    if (!paymentMethodId || !(await getOwnedPaymentMethod(profile.stripe_customer_id, paymentMethodId))) {
+      throw new BadRequestError('No valid payment method provided', 'payment_method_required');
+    }
+
+    await setDefaultPaymentMethod(profile.stripe_customer_id, profile.subscription_id, paymentMethodId);
+
+    let subscription = await billing.getSubscription(profile.subscription_id);
+
+    if (subscription.status === 'past_due' || subscription.status === 'unpaid') {
+      const openInvoices = await billing.listInvoices(profile.stripe_customer_id, {
+        subscription_id: subscription.id,
+        status: 'open',
+      });
+
+      // A decline surfaces as a 402 from the error handler
+      for (const invoice of openInvoices.data) {
+        await billing.payInvoice(invoice.id, paymentMethodId);
+      }
+
+      subscription = await billing.getSubscription(subscription.id);
+    }
+
+    const result = await updateSubscriptionState(profiles, { user_id: req.user!.id }, stateFromSubscription(subscription));
+
+    res.json({
+      message: 'Payment method updated',
+      payment_method_id: paymentMethodId,
+      status: result.status,
+      expires_at: result.expires_at,
+    });
+  });
+
+  // A fully refunded customer loses access for good: the subscription behind it is cancelled
+  // and detached, so a later re-sync can't bring the paid status back. A refund delivered after
+  // newer events is ignored, as it may predate the subscription the profile now has.
+  const refundState = async (customerId: string, eventTime: string | null): Promise<SubscriptionState | null> => {
+    const profile = await profiles.findByStripeCustomerId(customerId);
+    if (eventTime && profile?.subscription_event_at && new Date(eventTime) < new Date(profile.subscription_event_at)) {
+      return null;
+    }
+    if (profile?.subscription_id) {
+      const subscription = await billing.getSubscription(profile.subscription_id);
+      if (subscription.status !== 'canceled' && subscription.status !== 'incomplete_expired') {
+        await billing.cancelSubscription(subscription.id);
+      }
+    }
+    return { status: 'refunded', subscription_id: null, expires_at: null, plan: null };
+  };
+
+  // Subscription state implied by an event, or null when the event doesn't affect it
+  const stateForEvent = async (event: BillingEvent): Promise<SubscriptionState | null> => {
     switch (event.type) {
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+      case 'customer.subscription.resumed':
+      case 'customer.subscription.paused':
       case 'customer.subscription.deleted':
-        // This fires when subscription actually ends (scheduled cancellation completes)
-        await supabase
-          .from('user_profiles')
-          .update({
-            subscription_status: 'cancelled',
-            subscription_id: null,
-            subscription_expires_at: null,
-          })
-          .eq('stripe_customer_id', eventObject.customer);
-        break;
+        // deleted fires when subscription actually ends (scheduled cancellation completes)
+        return event.subscription ? stateFromSubscription(event.subscription) : null;
+
+      case 'invoice.paid':
+      case 'invoice.payment_failed':
+        // The invoice alone doesn't say whether a cancellation is scheduled or how many
+        // retries remain, so read the subscription it belongs to (active or past_due/unpaid)
+        if (!event.subscription_id) {
+          return null;
+        }
+        return stateFromSubscription(await billing.getSubscription(event.subscription_id));
 
-      case 'customer.subscription.updated':
-        if (eventObject.status === 'active') {
-          let updatedPeriodEnd = (eventObject as any).current_period_end;
-          const cancelAtPeriodEnd = (eventObject as any).cancel_at_period_end;
-
-          if (!updatedPeriodEnd && (eventObject as any).billing_cycle_anchor) {
-            const billingAnchor = (eventObject as any).billing_cycle_anchor;
-            updatedPeriodEnd = billingAnchor + (30 * 24 * 60 * 60);
-          }
-
-          const updatedExpiresAt = timestampToISOString(updatedPeriodEnd);
-
-          // Set correct status based on cancellation
-          let status = 'active';
-          if (cancelAtPeriodEnd) {
-            status = 'active_until_period_end';
-          }
-
-          const webhookUpdateData: any = {
-            subscription_status: status,
-          };
-
-          if (updatedExpiresAt) {
-            webhookUpdateData.subscription_expires_at = updatedExpiresAt;
-          }
-
-          await supabase
-            .from('user_profiles')
-            .update(webhookUpdateData)
-            .eq('stripe_customer_id', eventObject.customer);
+      case 'charge.refunded':
+        // Partial refunds (goodwill credits) keep access; a full refund revokes it
+        if (!event.refunded || !event.customer_id) {
+          return null;
         }
-        break;
+        return refundState(event.customer_id, timestampToISOString(event.created));
 
-      // ... other existing webhook cases
+      default:
+        return null;
+    }
+  };
+
+  // Webhook handler. Mounted directly in app.ts ahead of express.json() so the
+  // body arrives as the raw Buffer that signature verification needs.
+  const stripeWebhookHandler = async (req: express.Request, res: express.Response): Promise<void> => {
+    if (!Buffer.isBuffer(req.body)) {
+      logger.error('webhook body was parsed before signature verification', { request_id: res.locals.request_id });
+      throw new BadRequestError('Webhook signature verification failed', 'invalid_signature');
     }
 
-    res.json({ received: true });
-  } catch (error) {
-    console.error('Webhook error:', error);
-    res.status(400).json({ error: 'Webhook signature verification failed' });
-  }
-});
+    const sig = req.headers['stripe-signature'];
+
+    let event: BillingEvent;
+    try {
+      event = await billing.constructWebhookEvent(req.body, sig as string);
+    } catch (error) {
+      if (!(error instanceof WebhookSignatureError)) throw error;
+      logger.warn('webhook signature verification failed', { request_id: res.locals.request_id, error });
+      throw new BadRequestError('Webhook signature verification failed', 'invalid_signature');
+    }
 
-export default router;
\ No newline at end of file
+    try {
+      const claimed = await webhookEvents.claim({
+        id: event.id,
+        type: event.type,
+        created_at: timestampToISOString(event.created),
+      });
+
+      if (!claimed) {
+        res.json({ received: true, duplicate: true });
+        return;
+      }
+
+      const state = await stateForEvent(event);
+
+      if (state && event.customer_id) {
+        // Events older than the last one applied are ignored, so out-of-order deliveries can't regress state
+        await updateSubscriptionState(
+          profiles,
+          { stripe_customer_id: event.customer_id },
+          state,
+          { eventTime: timestampToISOString(event.created), subscriptionId: event.subscription_id ?? undefined }
+        );
+      }
+
+      res.json({ received: true });
+    } catch (error) {
+      // Let Stripe's retry process the event again; the error handler logs and returns a 500
+      await webhookEvents.release(event.id);
+      throw error;
+    }
+  };
+
+  return { router, stripeWebhookHandler };
+};
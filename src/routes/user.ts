@@ -1,52 +1,265 @@
 // src/routes/user.ts
-import express from 'express';
-import { supabase } from '../app';
-import { authenticateUser, requireActiveSubscription, AuthRequest } from '../middleware/auth';
+import express, { Response } from 'express';
+import type { AppDependencies } from '../app';
+import { createAuthenticateUser, requireFeature, AuthRequest } from '../middleware/auth';
+import { ValidatedRequest, validate } from '../middleware/validate';
+import { IntakeRepository, ProfileUpdate } from '../repositories/types';
+import { BadRequestError, NotFoundError } from '../errors';
+import { cancelAccountDeletion, scheduleAccountDeletion } from '../services/accountDeletion';
+import { buildTakeout, exportRowsToCsv, toExportRow } from '../services/dataExport';
+import { importIntakeCsv } from '../services/intakeImport';
+import { toLocalDate } from '../utils/timezone';
+import { recommendLimits } from '../utils/recommendations';
+import {
+  dailyLimitSchema,
+  exportSchema,
+  halfLifeSchema,
+  healthProfileSchema,
+  importSchema,
+  strictModeSchema,
+  timezoneSchema
+} from '../validation/user';
 
-const router = express.Router();
+// Roughly 5000 rows from a verbose tracker export
+const MAX_IMPORT_BYTES = '5mb';
 
-// Apply authentication to all routes
-router.use(authenticateUser as any, requireActiveSubscription as any);
+// Recompute the local-day `date` of every intake log for the given timezone.
+// Rows are grouped by their new date so each distinct day costs a single update.
+const recomputeIntakeDates = async (intake: IntakeRepository, userId: string, timezone: string): Promise<number> => {
+  const logs = await intake.listAll(userId);
 
-// Get user profile
-router.get('/profile', async (req: AuthRequest, res: any) => {
-  try {
-    const { data, error } = await supabase
-      .from('user_profiles')
-      .select('*')
-      .eq('id', req.user!.id)
-      .single();
+  const idsByDate: Record<string, string[]> = {};
+  for (const log of logs) {
+    const localDate = toLocalDate(new Date(log.consumed_at), timezone);
+    if (localDate !== log.date) {
+      (idsByDate[localDate] ||= []).push(log.id);
+    }
+  }
+
+  let updated = 0;
+  for (const [date, ids] of Object.entries(idsByDate)) {
+    await intake.setDate(userId, ids, date);
+    updated += ids.length;
+  }
+
+  return updated;
+};
+
+export const createUserRouter = (deps: AppDependencies) => {
+  const router = express.Router();
+  const { repositories, auth, billing } = deps;
+  const { accountDeletions, intake, profiles } = repositories;
+
+  const updateProfile = async (userId: string, fields: ProfileUpdate) => {
+    const profile = await profiles.update(userId, fields);
+    if (!profile) {
+      throw new NotFoundError('Profile not found', 'profile_not_found');
+    }
+    return profile;
+  };
 
-    if (error) throw error;
+  // Apply authentication to all routes; premium features are gated per route
+  router.use(createAuthenticateUser(auth, profiles, billing));
+
+  // Get user profile
+  router.get('/profile', async (req: AuthRequest, res: Response) => {
+    const data = await profiles.findById(req.user!.id);
+
+    if (!data) {
+      throw new NotFoundError('Profile not found', 'profile_not_found');
+    }
 
     res.json(data);
-  } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch profile' });
-  }
-});
+  });
 
-// Update daily caffeine limit
-router.put('/daily-limit', async (req: AuthRequest, res: any) => {
-  try {
+  // Update daily caffeine limit
+  router.put('/daily-limit', validate(dailyLimitSchema), async (
+    req: ValidatedRequest<typeof dailyLimitSchema>,
+    res: Response
+  ) => {
     const { daily_caffeine_limit } = req.body;
 
-    if (!daily_caffeine_limit || daily_caffeine_limit < 50 || daily_caffeine_limit > 1000) {
-      return res.status(400).json({ error: 'Daily limit must be between 50-1000mg' });
+    const data = await updateProfile(req.user!.id, { daily_caffeine_limit });
+
+    res.json(data);
+  });
+
+  // Toggle strict mode: logs that would exceed the daily limit are rejected unless overridden
+  router.put('/strict-mode', validate(strictModeSchema), async (
+    req: ValidatedRequest<typeof strictModeSchema>,
+    res: Response
+  ) => {
+    const { strict_limit_mode } = req.body;
+
+    const data = await updateProfile(req.user!.id, { strict_limit_mode });
+
+    res.json(data);
+  });
+
+  // Update caffeine half-life used by the decay model
+  router.put('/half-life', validate(halfLifeSchema), async (
+    req: ValidatedRequest<typeof halfLifeSchema>,
+    res: Response
+  ) => {
+    const { caffeine_half_life_hours } = req.body;
+
+    const data = await updateProfile(req.user!.id, { caffeine_half_life_hours });
+
+    res.json(data);
+  });
+
+  // Update timezone used for daily bucketing (IANA name, e.g. "Europe/Madrid")
+  router.put('/timezone', validate(timezoneSchema), async (
+    req: ValidatedRequest<typeof timezoneSchema>,
+    res: Response
+  ) => {
+    const { timezone } = req.body;
+
+    const data = await updateProfile(req.user!.id, { timezone });
+
+    // Existing logs move to the local day of the new timezone
+    const recomputed_logs = await recomputeIntakeDates(intake, req.user!.id, timezone);
+
+    res.json({ ...data, recomputed_logs });
+  });
+
+  // Backfill local-day dates for logs recorded before the timezone was known
+  router.post('/recompute-dates', async (req: AuthRequest, res: Response) => {
+    const recomputed_logs = await recomputeIntakeDates(intake, req.user!.id, req.user!.timezone);
+
+    res.json({ timezone: req.user!.timezone, recomputed_logs });
+  });
+
+  // Update optional health fields used for limit recommendations (null clears a field)
+  router.put('/health-profile', validate(healthProfileSchema), async (
+    req: ValidatedRequest<typeof healthProfileSchema>,
+    res: Response
+  ) => {
+    // Omitted fields are undefined and left unchanged
+    const updateData: ProfileUpdate = req.body;
+
+    const data = await updateProfile(req.user!.id, updateData);
+
+    res.json(data);
+  });
+
+  // Recommend a daily limit and half-life from the health profile
+  router.get('/recommendations', async (req: AuthRequest, res: Response) => {
+    const profile = await profiles.findById(req.user!.id);
+
+    if (!profile) {
+      throw new NotFoundError('Profile not found', 'profile_not_found');
+    }
+
+    res.json({
+      recommended: recommendLimits(profile),
+      current: {
+        daily_caffeine_limit: profile.daily_caffeine_limit,
+        caffeine_half_life_hours: profile.caffeine_half_life_hours
+      }
+    });
+  });
+
+  // Accept the recommendation, replacing the current limit and half-life.
+  // Users who prefer their own values keep using PUT /daily-limit and PUT /half-life.
+  router.post('/recommendations/accept', async (req: AuthRequest, res: Response) => {
+    const profile = await profiles.findById(req.user!.id);
+
+    if (!profile) {
+      throw new NotFoundError('Profile not found', 'profile_not_found');
     }
 
-    const { data, error } = await supabase
-      .from('user_profiles')
-      .update({ daily_caffeine_limit })
-      .eq('id', req.user!.id)
-      .select()
-      .single();
+    const recommendation = recommendLimits(profile);
+
+    const data = await updateProfile(req.user!.id, {
+      daily_caffeine_limit: recommendation.daily_caffeine_limit,
+      caffeine_half_life_hours: recommendation.caffeine_half_life_hours
+    });
+
+    res.json({ ...data, recommendation });
+  });
+
+  // Export intake history with drink details as CSV or JSON
+  router.get('/export', requireFeature('export'), validate(exportSchema), async (
+    req: ValidatedRequest<typeof exportSchema>,
+    res: Response
+  ) => {
+    const { format, from, to } = req.query;
+
+    const logs = await intake.listWithDrinks(req.user!.id, { from, to });
+    const rows = logs.map(toExportRow);
+    const filename = `caffeine-intake-${from ?? 'start'}-to-${to ?? 'latest'}.${format}`;
+
+    res.attachment(filename);
+
+    if (format === 'csv') {
+      res.type('text/csv').send(exportRowsToCsv(rows));
+      return;
+    }
 
-    if (error) throw error;
+    res.json({
+      from: from ?? null,
+      to: to ?? null,
+      timezone: req.user!.timezone,
+      exported_at: new Date().toISOString(),
+      logs: rows
+    });
+  });
 
+  // Everything we hold about the user as one JSON download. Not a premium feature:
+  // users are entitled to their data regardless of plan.
+  router.get('/takeout', async (req: AuthRequest, res: Response) => {
+    const data = await buildTakeout(repositories, req.user!.id);
+
+    res.attachment(`caffeine-tracker-takeout-${toLocalDate(new Date(), req.user!.timezone)}.json`);
     res.json(data);
-  } catch (error) {
-    res.status(500).json({ error: 'Failed to update daily limit' });
-  }
-});
+  });
+
+  // Import intake history from a CSV file sent as the text/csv body. Rows that can't be read are
+  // reported individually; the rest are imported. ?dry_run=true reports without writing anything.
+  router.post(
+    '/import',
+    requireFeature('export'),
+    express.text({ type: 'text/csv', limit: MAX_IMPORT_BYTES }),
+    validate(importSchema),
+    async (req: ValidatedRequest<typeof importSchema>, res: Response) => {
+      if (typeof req.body !== 'string') {
+        throw new BadRequestError('Send the file as the request body with Content-Type: text/csv', 'csv_required');
+      }
+
+      const report = await importIntakeCsv(repositories, req.user!, req.body, {
+        dryRun: req.query.dry_run === 'true'
+      });
+
+      res.status(report.dry_run ? 200 : 201).json(report);
+    }
+  );
+
+  // Request deletion of the account. Subscription renewal stops now; the subscription, billing
+  // details, intake history, custom drinks and profile are removed once the undo window ends.
+  router.delete('/', async (req: AuthRequest, res: Response) => {
+    const deletion = await scheduleAccountDeletion(deps, req.user!.id);
+
+    res.status(202).json(deletion);
+  });
+
+  // The latest deletion request and where it stands
+  router.get('/deletion', async (req: AuthRequest, res: Response) => {
+    const deletion = await accountDeletions.findLatestForUser(req.user!.id);
+
+    if (!deletion) {
+      throw new NotFoundError('No account deletion has been requested', 'deletion_not_found');
+    }
+
+    res.json(deletion);
+  });
+
+  // Undo a deletion request during the undo window
+  router.post('/deletion/cancel', async (req: AuthRequest, res: Response) => {
+    const deletion = await cancelAccountDeletion(deps, req.user!.id);
+
+    res.json(deletion);
+  });
 
-export default router;
\ No newline at end of file
+  return router;
+};
@@ -0,0 +1,181 @@
+// src/services/accountDeletion.ts
+// Account deletion: a request turns off subscription renewal and waits out an undo window;
+// afterwards the subscription is cancelled, the billing customer removed, and the user's data,
+// profile and login deleted. The account_deletions row is kept as the audit record.
+import type { AppDependencies } from '../app';
+import { ConflictError, NotFoundError } from '../errors';
+import { AccountDeletion, AccountDeletionSummary } from '../repositories/types';
+import { logger } from '../utils/logger';
+import { stateFromSubscription, updateSubscriptionState } from './subscription';
+
+// Read lazily: this module is imported before app.ts loads .env
+const undoWindowHours = (): number => parseInt(process.env.ACCOUNT_DELETION_UNDO_HOURS || '48', 10);
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+// Deletions handled per run; the rest wait for the next one
+const DEFAULT_BATCH_SIZE = 50;
+
+const alreadyScheduled = (deletion: AccountDeletion | null) => new ConflictError(
+  'Account deletion is already scheduled',
+  'deletion_already_scheduled',
+  { scheduled_for: deletion?.scheduled_for ?? null }
+);
+
+export const scheduleAccountDeletion = async (
+  { repositories, billing }: AppDependencies,
+  userId: string,
+  now: Date = new Date()
+): Promise<AccountDeletion> => {
+  const { accountDeletions, profiles } = repositories;
+
+  const latest = await accountDeletions.findLatestForUser(userId);
+  if (latest && (latest.status === 'scheduled' || latest.status === 'processing')) {
+    throw alreadyScheduled(latest);
+  }
+
+  // Stop the subscription renewing, as POST /subscription/cancel does; access runs to period end
+  const profile = await profiles.findById(userId);
+  let pausedSubscriptionId: string | null = null;
+
+  if (profile?.subscription_id) {
+    const current = await billing.getSubscription(profile.subscription_id);
+
+    if (current.status !== 'canceled' && !current.cancel_at_period_end) {
+      const subscription = await billing.updateSubscription(current.id, { cancel_at_period_end: true });
+      await updateSubscriptionState(profiles, { user_id: userId }, stateFromSubscription(subscription));
+      pausedSubscriptionId = subscription.id;
+    }
+  }
+
+  const deletion = await accountDeletions.create({
+    user_id: userId,
+    scheduled_for: new Date(now.getTime() + undoWindowHours() * MS_PER_HOUR).toISOString(),
+    paused_subscription_id: pausedSubscriptionId,
+  });
+
+  // A concurrent request got past the check above and scheduled it first
+  if (!deletion) {
+    throw alreadyScheduled(await accountDeletions.findLatestForUser(userId));
+  }
+
+  return deletion;
+};
+
+// Undo a scheduled deletion, turning renewal back on if the request turned it off
+export const cancelAccountDeletion = async (
+  { repositories, billing }: AppDependencies,
+  userId: string
+): Promise<AccountDeletion> => {
+  const { accountDeletions, profiles } = repositories;
+
+  const latest = await accountDeletions.findLatestForUser(userId);
+  if (!latest || latest.status === 'cancelled') {
+    throw new NotFoundError('No account deletion is scheduled', 'deletion_not_found');
+  }
+
+  const deletion = await accountDeletions.update(latest.id, {
+    status: 'cancelled',
+    cancelled_at: new Date().toISOString()
+  }, { ifStatus: 'scheduled' });
+
+  if (!deletion) {
+    throw new ConflictError('Account deletion is already under way', 'deletion_in_progress');
+  }
+
+  const profile = await profiles.findById(userId);
+  if (deletion.paused_subscription_id && deletion.paused_subscription_id === profile?.subscription_id) {
+    const subscription = await billing.updateSubscription(deletion.paused_subscription_id, {
+      cancel_at_period_end: false,
+    });
+    await updateSubscriptionState(profiles, { user_id: userId }, stateFromSubscription(subscription));
+  }
+
+  return deletion;
+};
+
+// Remove everything held about the user. Each step is safe to repeat, so a failed run is put back
+// in the schedule and retried.
+const deleteAccount = async (
+  { repositories, billing, auth }: AppDependencies,
+  userId: string
+): Promise<AccountDeletionSummary> => {
+  const { drinks, favorites, intake, profiles, routines, submissions } = repositories;
+
+  const profile = await profiles.findById(userId);
+  let subscriptionCancelled = false;
+  let customerDeleted = false;
+
+  if (profile?.subscription_id) {
+    const current = await billing.getSubscription(profile.subscription_id);
+
+    if (current.status !== 'canceled') {
+      const subscription = await billing.cancelSubscription(current.id);
+      await updateSubscriptionState(profiles, { user_id: userId }, stateFromSubscription(subscription));
+      subscriptionCancelled = true;
+    }
+  }
+
+  if (profile?.stripe_customer_id) {
+    await billing.deleteCustomer(profile.stripe_customer_id);
+    await profiles.update(userId, { stripe_customer_id: null, subscription_id: null });
+    customerDeleted = true;
+  }
+
+  // Submissions reference custom drinks, so they go first
+  const summary: AccountDeletionSummary = {
+    favorites: await favorites.removeAll(userId),
+    intake_logs: await intake.deleteAll(userId),
+    routines: await routines.deleteAll(userId),
+    drink_submissions: await submissions.deleteForUser(userId),
+    custom_drinks: await drinks.deleteAllCustom(userId),
+    subscription_cancelled: subscriptionCancelled,
+    billing_customer_deleted: customerDeleted,
+  };
+
+  await profiles.delete(userId);
+  await auth.deleteUser(userId);
+
+  return summary;
+};
+
+// Carry out deletions whose undo window has ended
+export const processDueAccountDeletions = async (
+  deps: AppDependencies,
+  { now = new Date(), limit = DEFAULT_BATCH_SIZE }: { now?: Date; limit?: number } = {}
+): Promise<{ completed: AccountDeletion[]; failed: number }> => {
+  const { accountDeletions } = deps.repositories;
+
+  const due = await accountDeletions.listDue(now.toISOString(), limit);
+  const completed: AccountDeletion[] = [];
+  let failed = 0;
+
+  for (const pending of due) {
+    // Claim it so a concurrent run (or an undo) can't act on it at the same time
+    const claimed = await accountDeletions.update(pending.id, { status: 'processing' }, { ifStatus: 'scheduled' });
+    if (!claimed) {
+      continue;
+    }
+
+    try {
+      const summary = await deleteAccount(deps, claimed.user_id);
+      const deletion = await accountDeletions.update(claimed.id, {
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+        summary,
+        last_error: null
+      });
+      completed.push(deletion ?? claimed);
+      logger.info('account deleted', { deletion_id: claimed.id, user_id: claimed.user_id, summary });
+    } catch (error) {
+      failed += 1;
+      logger.error('account deletion failed', { deletion_id: claimed.id, user_id: claimed.user_id, error });
+      await accountDeletions.update(claimed.id, {
+        status: 'scheduled',
+        last_error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  return { completed, failed };
+};
@@ -0,0 +1,27 @@
+// src/services/catalog.ts
+// Helpers for moving drinks between users and the public catalog.
+import { ConflictError } from '../errors';
+import { DrinkFields, DrinkRepository } from '../repositories/types';
+
+// Just the descriptive fields of a drink or submission, without ownership or moderation state
+export const pickDrinkFields = (source: DrinkFields): DrinkFields => ({
+  name: source.name,
+  caffeine_per_serving: source.caffeine_per_serving,
+  category: source.category,
+  brand: source.brand,
+  serving_size: source.serving_size,
+  caffeine_per_100ml: source.caffeine_per_100ml,
+  sizes: source.sizes,
+  barcode: source.barcode,
+});
+
+// Throws when the catalog already has this drink (same name and brand, or same barcode)
+export const assertNotInCatalog = async (drinks: DrinkRepository, fields: DrinkFields): Promise<void> => {
+  const duplicates = await drinks.findCatalogDuplicates(fields);
+
+  if (duplicates.length > 0) {
+    throw new ConflictError('This drink is already in the catalog', 'duplicate_drink', {
+      duplicate_drink_ids: duplicates.map((drink) => drink.id)
+    });
+  }
+};
@@ -0,0 +1,74 @@
+// src/services/dataExport.ts
+// Intake history exports and the full-account takeout.
+import { IntakeLogWithDrink, Repositories } from '../repositories/types';
+import { CsvValue, toCsv } from '../utils/csv';
+
+// Column order for CSV; JSON rows use the same keys plus drink_id
+export const EXPORT_COLUMNS = [
+  'consumed_at',
+  'date',
+  'drink_name',
+  'category',
+  'brand',
+  'servings',
+  'measure',
+  'size_name',
+  'volume_ml',
+  'caffeine_per_serving',
+  'total_caffeine',
+  'notes',
+] as const;
+
+type ExportColumn = typeof EXPORT_COLUMNS[number];
+
+export type ExportRow = Record<ExportColumn, CsvValue> & { drink_id: string };
+
+export const toExportRow = (log: IntakeLogWithDrink): ExportRow => ({
+  consumed_at: log.consumed_at,
+  date: log.date,
+  drink_id: log.drink_id,
+  drink_name: log.drink_name,
+  category: log.drinks?.category ?? null,
+  brand: log.drinks?.brand ?? null,
+  servings: log.servings,
+  measure: log.measure,
+  size_name: log.size_name,
+  volume_ml: log.volume_ml,
+  caffeine_per_serving: log.caffeine_per_serving,
+  total_caffeine: log.total_caffeine,
+  notes: log.notes,
+});
+
+export const exportRowsToCsv = (rows: ExportRow[]): string => {
+  return toCsv([...EXPORT_COLUMNS], rows.map((row) => EXPORT_COLUMNS.map((column) => row[column])));
+};
+
+// Everything stored about the user, for data access requests. Billing details held by the
+// payment provider aren't included; only the references to them on the profile are.
+export const buildTakeout = async (
+  { drinks, favorites, intake, profiles, routines, submissions }: Repositories,
+  userId: string
+) => {
+  const [profile, visible, archived, favoriteIds, logs, pending, userRoutines, userSubmissions] = await Promise.all([
+    profiles.findById(userId),
+    drinks.listVisible(userId),
+    drinks.listArchived(userId),
+    favorites.listDrinkIds(userId),
+    intake.listWithDrinks(userId, {}),
+    intake.listPending(userId),
+    routines.list(userId),
+    submissions.listForUser(userId),
+  ]);
+
+  return {
+    exported_at: new Date().toISOString(),
+    profile,
+    custom_drinks: [...visible.filter((drink) => drink.user_id === userId), ...archived],
+    favorite_drink_ids: favoriteIds,
+    intake_logs: logs,
+    // Scheduled routine entries not yet confirmed or dismissed
+    pending_intake_logs: pending,
+    routines: userRoutines,
+    drink_submissions: userSubmissions,
+  };
+};
@@ -0,0 +1,28 @@
+// src/services/entitlements.ts
+// Tiered access. Everyone gets the free tier; an entitled subscription (including a
+// trial) unlocks premium features and lifts the free-tier quotas.
+import { SubscriptionStatus, isEntitled } from './subscription';
+
+export type Tier = 'free' | 'premium';
+
+export type Feature = 'decay_model' | 'analytics' | 'export';
+
+const PREMIUM_FEATURES: Feature[] = ['decay_model', 'analytics', 'export'];
+
+export const FREE_TIER_LIMITS = {
+  history_days: 7,
+  custom_drinks: 3,
+};
+
+export const tierFor = (
+  status: SubscriptionStatus,
+  expiresAt: string | null,
+  plan: string | null | undefined,
+  now: Date
+): Tier => {
+  return isEntitled(status, expiresAt, plan, now) ? 'premium' : 'free';
+};
+
+export const hasFeature = (tier: Tier, feature: Feature): boolean => {
+  return tier === 'premium' || !PREMIUM_FEATURES.includes(feature);
+};
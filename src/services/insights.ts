@@ -0,0 +1,182 @@
+// src/services/insights.ts
+// Consumption insights over the user's recent days: trends, rolling averages, when and what they
+// drink, and streaks within their daily limit. Everything is bucketed by the user's local day.
+import { IntakeLogWithDrink, Repositories } from '../repositories/types';
+import { addDays } from '../utils/calendar';
+import { resolveDailyLimit } from '../utils/limits';
+import { toLocalDate, toLocalHour } from '../utils/timezone';
+
+// Longest rolling average; its first day needs this many days of logs before the range
+const ROLLING_WINDOW_DAYS = 30;
+
+// Entries in the top drinks and top categories lists
+const TOP_COUNT = 5;
+
+const round = (n: number) => Math.round(n);
+
+// Share of `whole`, to one decimal place
+const percentOf = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0);
+
+interface DayTotal {
+  total: number;
+  count: number;
+}
+
+// Caffeine and log counts grouped by a key, largest share first
+const ranked = <K>(logs: IntakeLogWithDrink[], keyOf: (log: IntakeLogWithDrink) => K, total: number) => {
+  const groups = new Map<K, DayTotal>();
+
+  for (const log of logs) {
+    const key = keyOf(log);
+    const group = groups.get(key) ?? { total: 0, count: 0 };
+    group.total += log.total_caffeine;
+    group.count += 1;
+    groups.set(key, group);
+  }
+
+  return [...groups.entries()]
+    .sort(([, a], [, b]) => b.total - a.total || b.count - a.count)
+    .slice(0, TOP_COUNT)
+    .map(([key, group]) => ({
+      key,
+      total_caffeine: group.total,
+      drink_count: group.count,
+      percent_of_total: percentOf(group.total, total),
+    }));
+};
+
+// Insights for the `days` local days ending today. Intake from `lateHour` onwards counts as late-day.
+export const getInsights = async (
+  { intake, profiles }: Repositories,
+  user: { id: string; timezone: string },
+  { days, lateHour, now = new Date() }: { days: number; lateHour: number; now?: Date }
+) => {
+  const to = toLocalDate(now, user.timezone);
+  const from = addDays(to, -(days - 1));
+
+  const profile = await profiles.findById(user.id);
+  const dailyLimit = resolveDailyLimit(profile?.daily_caffeine_limit);
+
+  // Earlier days only feed the rolling averages and the previous-week trend
+  const allLogs = await intake.listWithDrinks(user.id, { from: addDays(from, -(ROLLING_WINDOW_DAYS - 1)), to });
+  const logs = allLogs.filter((log) => log.date >= from);
+
+  const dayTotals = new Map<string, DayTotal>();
+  for (const log of allLogs) {
+    const day = dayTotals.get(log.date) ?? { total: 0, count: 0 };
+    day.total += log.total_caffeine;
+    day.count += 1;
+    dayTotals.set(log.date, day);
+  }
+
+  const totalOn = (day: string) => dayTotals.get(day)?.total ?? 0;
+
+  // Total over the `length` days ending on `end`
+  const totalOver = (end: string, length: number) => {
+    let total = 0;
+    for (let i = 0; i < length; i++) {
+      total += totalOn(addDays(end, -i));
+    }
+    return total;
+  };
+
+  const daily = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    daily.push({
+      date: day,
+      total_caffeine: totalOn(day),
+      drink_count: dayTotals.get(day)?.count ?? 0,
+      within_limit: totalOn(day) <= dailyLimit,
+      rolling_7_day_average: round(totalOver(day, 7) / 7),
+      rolling_30_day_average: round(totalOver(day, 30) / 30),
+    });
+  }
+
+  // The last 7 days (today included) against the 7 before them
+  const thisWeek = totalOver(to, 7);
+  const previousWeek = totalOver(addDays(to, -7), 7);
+
+  const totalCaffeine = logs.reduce((sum, log) => sum + log.total_caffeine, 0);
+
+  const hours = Array.from({ length: 24 }, (_, hour) => ({ hour, total_caffeine: 0, drink_count: 0 }));
+  for (const log of logs) {
+    const hour = hours[toLocalHour(new Date(log.consumed_at), user.timezone)];
+    hour.total_caffeine += log.total_caffeine;
+    hour.drink_count += 1;
+  }
+
+  const lateLogs = logs.filter((log) => toLocalHour(new Date(log.consumed_at), user.timezone) >= lateHour);
+  const daysLogged = new Set(logs.map((log) => log.date)).size;
+  const lateDays = new Set(lateLogs.map((log) => log.date)).size;
+  const lateCaffeine = lateLogs.reduce((sum, log) => sum + log.total_caffeine, 0);
+
+  // Streaks start from the first logged day in the range, so days before the user began
+  // tracking don't count; a day with nothing logged after that counts as within the limit.
+  // Today counts while it's still within the limit.
+  let current = 0;
+  let longest = { days: 0, from: null as string | null, to: null as string | null };
+  const firstLogged = daily.find((day) => day.drink_count > 0)?.date;
+
+  if (firstLogged) {
+    for (const day of daily.filter((entry) => entry.date >= firstLogged)) {
+      current = day.within_limit ? current + 1 : 0;
+      if (current > longest.days) {
+        longest = { days: current, from: addDays(day.date, -(current - 1)), to: day.date };
+      }
+    }
+  }
+
+  return {
+    from,
+    to,
+    timezone: user.timezone,
+    daily_caffeine_limit: dailyLimit,
+    total_caffeine: totalCaffeine,
+    drink_count: logs.length,
+    days_logged: daysLogged,
+    average_daily_caffeine: round(totalCaffeine / days),
+    trend: {
+      this_week: { from: addDays(to, -6), to, total_caffeine: thisWeek, average_daily_caffeine: round(thisWeek / 7) },
+      previous_week: {
+        from: addDays(to, -13),
+        to: addDays(to, -7),
+        total_caffeine: previousWeek,
+        average_daily_caffeine: round(previousWeek / 7)
+      },
+      change_mg: thisWeek - previousWeek,
+      // null when there's nothing to compare against
+      change_percent: previousWeek > 0 ? percentOf(thisWeek - previousWeek, previousWeek) : null,
+    },
+    rolling_averages: {
+      last_7_days: daily[daily.length - 1].rolling_7_day_average,
+      last_30_days: daily[daily.length - 1].rolling_30_day_average,
+    },
+    daily,
+    time_of_day: {
+      peak_hour: totalCaffeine > 0 ? hours.reduce((peak, hour) => (hour.total_caffeine > peak.total_caffeine ? hour : peak)).hour : null,
+      hours: hours.map((hour) => ({ ...hour, percent_of_total: percentOf(hour.total_caffeine, totalCaffeine) })),
+    },
+    // Grouped by drink; the name is the drink's current one, or the log's snapshot if it's gone
+    top_drinks: ranked(logs, (log) => log.drink_id, totalCaffeine).map(({ key, ...group }) => {
+      const log = logs.find((candidate) => candidate.drink_id === key)!;
+      return { drink_id: key, name: log.drinks?.name ?? log.drink_name, ...group };
+    }),
+    // Logs of deleted drinks have no category
+    top_categories: ranked(logs, (log) => log.drinks?.category ?? null, totalCaffeine)
+      .map(({ key, ...group }) => ({ category: key, ...group })),
+    late_day: {
+      from_hour: lateHour,
+      days_with_late_intake: lateDays,
+      percent_of_days_logged: percentOf(lateDays, daysLogged),
+      drink_count: lateLogs.length,
+      total_caffeine: lateCaffeine,
+      percent_of_total: percentOf(lateCaffeine, totalCaffeine),
+    },
+    streaks: {
+      current_days: current,
+      longest_days: longest.days,
+      longest_from: longest.from,
+      longest_to: longest.to,
+    },
+  };
+};
@@ -0,0 +1,294 @@
+// src/services/intakeImport.ts
+// CSV import of intake history from other trackers (or our own export). Columns are matched by
+// header name; drinks are matched by name and brand, and created as custom drinks when missing.
+import { BadRequestError } from '../errors';
+import { Drink, DrinkFields, NewIntakeLog, Repositories } from '../repositories/types';
+import { isValidDay } from '../utils/calendar';
+import { parseCsv } from '../utils/csv';
+import { fromLocalDateTime, toLocalDate } from '../utils/timezone';
+import { MAX_SERVINGS } from '../validation/intake';
+
+export const MAX_IMPORT_ROWS = 5000;
+
+// The most a single log can hold: the largest drink at the most servings
+const MAX_ROW_CAFFEINE = 2000 * MAX_SERVINGS;
+
+// Drinks created for rows without a category
+const DEFAULT_IMPORT_CATEGORY = 'Imported';
+
+type ImportColumn = 'consumed_at' | 'date' | 'time' | 'drink' | 'brand' | 'category' | 'servings' | 'caffeine' | 'notes';
+
+// Normalised header names (see normalizeHeader) each column is recognised by, in order of preference
+const HEADER_ALIASES: Record<ImportColumn, string[]> = {
+  consumed_at: ['consumed_at', 'timestamp', 'datetime', 'date_time', 'logged_at'],
+  date: ['date', 'day'],
+  time: ['time', 'time_of_day'],
+  drink: ['drink_name', 'drink', 'name', 'beverage', 'item', 'product'],
+  brand: ['brand', 'maker'],
+  category: ['category', 'type'],
+  servings: ['servings', 'serving', 'quantity', 'qty', 'count'],
+  caffeine: ['total_caffeine', 'caffeine_mg', 'caffeine', 'mg', 'amount_mg'],
+  notes: ['notes', 'note', 'comment', 'comments'],
+};
+
+export interface ImportRowError {
+  // 1-based line in the file, counting the header
+  row: number;
+  message: string;
+}
+
+export interface ImportReport {
+  dry_run: boolean;
+  rows: number;
+  imported: number;
+  duplicates: number;
+  // id is null on a dry run
+  created_drinks: { id: string | null; name: string }[];
+  errors: ImportRowError[];
+}
+
+// "Caffeine (mg)" -> "caffeine_mg"
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+const resolveColumns = (headers: string[]): Partial<Record<ImportColumn, number>> => {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<ImportColumn, number>> = {};
+
+  for (const [column, aliases] of Object.entries(HEADER_ALIASES) as [ImportColumn, string[]][]) {
+    const index = aliases.map((alias) => normalized.indexOf(alias)).find((i) => i !== -1);
+    if (index !== undefined) {
+      columns[column] = index;
+    }
+  }
+
+  return columns;
+};
+
+const LOCAL_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+const HAS_OFFSET = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+// Timestamps with an offset are taken as-is; wall-clock times are read in the user's timezone.
+// A bare date means noon that day, so it lands on the right local day.
+const parseTimestamp = (dateTime: string, time: string, timezone: string): Date | null => {
+  let value = dateTime.trim().replace(' ', 'T');
+
+  if (isValidDay(value)) {
+    value = `${value}T${time.trim() || '12:00'}`;
+  }
+  if (HAS_OFFSET.test(value)) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return LOCAL_DATE_TIME.test(value) ? fromLocalDateTime(value, timezone) : null;
+};
+
+// "95", "95.5" or "95 mg"
+const parseAmount = (value: string): number | null => {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(?:mg)?$/i);
+  return match ? Number(match[1]) : null;
+};
+
+const drinkKey = (name: string, brand: string | null) => `${name.toLowerCase()}|${(brand ?? '').toLowerCase()}`;
+
+// Logs at the same minute with the same drink and amount are treated as the same log
+const logKey = (consumedAt: string, drinkName: string, totalCaffeine: number) =>
+  `${consumedAt.slice(0, 16)}|${drinkName.toLowerCase()}|${totalCaffeine}`;
+
+export const importIntakeCsv = async (
+  { drinks, intake }: Repositories,
+  user: { id: string; timezone: string },
+  text: string,
+  { dryRun }: { dryRun: boolean }
+): Promise<ImportReport> => {
+  const parsed = parseCsv(text);
+
+  if (!parsed) {
+    throw new BadRequestError('The file is not valid CSV (unterminated quoted field)', 'invalid_csv');
+  }
+
+  const [headers = [], ...rows] = parsed;
+
+  if (rows.length === 0) {
+    throw new BadRequestError('The file has no rows to import', 'empty_import');
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new BadRequestError(`Imports are limited to ${MAX_IMPORT_ROWS} rows`, 'import_too_large', {
+      max_rows: MAX_IMPORT_ROWS
+    });
+  }
+
+  const columns = resolveColumns(headers);
+
+  if (columns.drink === undefined || (columns.consumed_at === undefined && columns.date === undefined)) {
+    throw new BadRequestError('The file needs a drink name column and a date or timestamp column', 'unrecognized_columns', {
+      headers
+    });
+  }
+
+  // Drinks the user can log, matched by name and brand; a name alone falls back to any brand
+  const byKey = new Map<string, Drink>();
+  const byName = new Map<string, Drink>();
+  for (const drink of await drinks.listVisible(user.id)) {
+    byKey.set(drinkKey(drink.name, drink.brand), drink);
+    if (!byName.has(drink.name.toLowerCase()) || drink.brand === null) {
+      byName.set(drink.name.toLowerCase(), drink);
+    }
+  }
+
+  const errors: ImportRowError[] = [];
+  // Drinks the file needs that the user doesn't have, under a placeholder id until they're created
+  const newDrinks: { placeholder: string; fields: DrinkFields }[] = [];
+  const pending: NewIntakeLog[] = [];
+  const cell = (row: string[], column: ImportColumn) => (columns[column] === undefined ? '' : (row[columns[column]!] ?? '').trim());
+
+  for (const [index, row] of rows.entries()) {
+    const line = index + 2;
+    const fail = (message: string) => errors.push({ row: line, message });
+
+    const consumedAt = parseTimestamp(cell(row, 'consumed_at') || cell(row, 'date'), cell(row, 'time'), user.timezone);
+    if (!consumedAt) {
+      fail('date/time is missing or not recognised');
+      continue;
+    }
+
+    const name = cell(row, 'drink');
+    if (!name || name.length > 100) {
+      fail(name ? 'drink name must be at most 100 characters' : 'drink name is missing');
+      continue;
+    }
+
+    const servingsText = cell(row, 'servings');
+    const servings = servingsText ? parseAmount(servingsText) : 1;
+    if (servings === null || servings <= 0 || servings > MAX_SERVINGS) {
+      fail(`servings must be a number greater than 0 and at most ${MAX_SERVINGS}`);
+      continue;
+    }
+
+    const caffeineText = cell(row, 'caffeine');
+    const caffeine = caffeineText ? parseAmount(caffeineText) : null;
+    if (caffeineText && (caffeine === null || caffeine > MAX_ROW_CAFFEINE)) {
+      fail(`caffeine must be a number of mg, at most ${MAX_ROW_CAFFEINE}`);
+      continue;
+    }
+
+    const brand = cell(row, 'brand') || null;
+    let drink = byKey.get(drinkKey(name, brand)) ?? (brand ? undefined : byName.get(name.toLowerCase()));
+
+    if (!drink) {
+      if (caffeine === null) {
+        fail(`no drink named "${name}" and no caffeine amount to create it from`);
+        continue;
+      }
+
+      const fields = {
+        name,
+        caffeine_per_serving: Math.round(caffeine / servings),
+        category: (cell(row, 'category') || DEFAULT_IMPORT_CATEGORY).slice(0, 50),
+        brand: brand?.slice(0, 100) ?? null,
+        serving_size: null,
+        caffeine_per_100ml: null,
+        sizes: [],
+        barcode: null,
+      };
+
+      const placeholder = `new:${newDrinks.length}`;
+      newDrinks.push({ placeholder, fields });
+      drink = {
+        id: placeholder,
+        ...fields,
+        is_custom: true,
+        user_id: user.id,
+        archived_at: null,
+        share_token: null,
+        updated_at: new Date().toISOString(),
+      };
+      byKey.set(drinkKey(name, brand), drink);
+      byName.set(name.toLowerCase(), drink);
+    }
+
+    const totalCaffeine = caffeine === null ? Math.round(drink.caffeine_per_serving * servings) : Math.round(caffeine);
+
+    pending.push({
+      user_id: user.id,
+      client_id: null,
+      status: 'logged',
+      routine_id: null,
+      drink_id: drink.id,
+      drink_name: drink.name,
+      caffeine_per_serving: Math.round(totalCaffeine / servings),
+      servings,
+      measure: 'servings',
+      size_name: null,
+      volume_ml: null,
+      volume_unit: null,
+      total_caffeine: totalCaffeine,
+      consumed_at: consumedAt.toISOString(),
+      date: toLocalDate(consumedAt, user.timezone),
+      notes: cell(row, 'notes').slice(0, 500) || null,
+    });
+  }
+
+  // De-duplicate against logs already stored in the file's time span (widened to whole minutes),
+  // and within the file
+  const seen = new Set<string>();
+  if (pending.length > 0) {
+    const instants = pending.map((log) => new Date(log.consumed_at).getTime());
+    const existing = await intake.listConsumedBetween(
+      user.id,
+      new Date(Math.min(...instants) - 60 * 1000).toISOString(),
+      new Date(Math.max(...instants) + 60 * 1000).toISOString()
+    );
+    for (const log of existing) {
+      seen.add(logKey(log.consumed_at, log.drink_name, log.total_caffeine));
+    }
+  }
+
+  const logs: NewIntakeLog[] = [];
+  let duplicates = 0;
+  for (const log of pending) {
+    const key = logKey(log.consumed_at, log.drink_name, log.total_caffeine);
+    if (seen.has(key)) {
+      duplicates += 1;
+    } else {
+      seen.add(key);
+      logs.push(log);
+    }
+  }
+
+  // Drinks are only created for rows being imported, and removed again if the logs can't be
+  // written, so a failed import leaves nothing behind for a retry to duplicate
+  const needed = newDrinks.filter(({ placeholder }) => logs.some((log) => log.drink_id === placeholder));
+  const created: Drink[] = [];
+
+  if (!dryRun) {
+    try {
+      for (const { placeholder, fields } of needed) {
+        const drink = await drinks.createCustom(user.id, fields);
+        created.push(drink);
+        for (const log of logs) {
+          if (log.drink_id === placeholder) {
+            log.drink_id = drink.id;
+          }
+        }
+      }
+
+      await intake.createMany(logs);
+    } catch (error) {
+      if (created.length > 0) {
+        await drinks.deleteCustom(user.id, created.map((drink) => drink.id));
+      }
+      throw error;
+    }
+  }
+
+  return {
+    dry_run: dryRun,
+    rows: rows.length,
+    imported: logs.length,
+    duplicates,
+    created_drinks: dryRun
+      ? needed.map(({ fields }) => ({ id: null, name: fields.name }))
+      : created.map((drink) => ({ id: drink.id, name: drink.name })),
+    errors,
+  };
+};
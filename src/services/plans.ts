@@ -0,0 +1,61 @@
+// src/services/plans.ts
+// Plan catalog. Each plan maps to a Stripe price configured through the environment;
+// plans whose price isn't configured are not offered.
+import { BillingProvider } from '../billing/provider';
+
+export type PlanId = 'monthly' | 'annual' | 'lifetime';
+
+export interface PlanDefinition {
+  id: PlanId;
+  name: string;
+  // Recurring plans are Stripe subscriptions; lifetime is a one-off payment
+  billing: 'recurring' | 'one_time';
+  priceEnv: string;
+}
+
+export const PLANS: PlanDefinition[] = [
+  { id: 'monthly', name: 'Monthly', billing: 'recurring', priceEnv: 'STRIPE_PRICE_ID' },
+  { id: 'annual', name: 'Annual', billing: 'recurring', priceEnv: 'STRIPE_PRICE_ID_ANNUAL' },
+  { id: 'lifetime', name: 'Lifetime', billing: 'one_time', priceEnv: 'STRIPE_PRICE_ID_LIFETIME' },
+];
+
+export const DEFAULT_PLAN: PlanId = 'monthly';
+
+export interface ResolvedPlan extends PlanDefinition {
+  priceId: string;
+}
+
+const configuredPlans = (): ResolvedPlan[] => {
+  return PLANS
+    .filter((plan) => !!process.env[plan.priceEnv])
+    .map((plan) => ({ ...plan, priceId: process.env[plan.priceEnv]! }));
+};
+
+export const planForPriceId = (priceId: string | null | undefined): ResolvedPlan | null => {
+  return configuredPlans().find((plan) => plan.priceId === priceId) ?? null;
+};
+
+// Resolve a `plan` name or `price_id` from a request. Only catalog prices are accepted.
+export const resolvePlan = (plan?: unknown, priceId?: unknown): ResolvedPlan | null => {
+  if (priceId) {
+    return planForPriceId(priceId as string);
+  }
+  return configuredPlans().find((p) => p.id === (plan ?? DEFAULT_PLAN)) ?? null;
+};
+
+// Catalog with live pricing from the billing provider
+export const listPlans = async (billing: BillingProvider) => {
+  const plans = configuredPlans();
+  const prices = await Promise.all(plans.map((plan) => billing.getPrice(plan.priceId)));
+
+  return plans.map((plan, i) => ({
+    id: plan.id,
+    name: plan.name,
+    billing: plan.billing,
+    price_id: plan.priceId,
+    amount: prices[i].amount,
+    currency: prices[i].currency,
+    interval: prices[i].interval,
+    interval_count: prices[i].interval_count,
+  }));
+};
@@ -0,0 +1,164 @@
+// src/services/routines.ts
+// Routines: saved sets of drinks logged together on demand, or added on their schedule as
+// pending logs the user confirms or dismisses.
+import { BadRequestError, ConflictError, ValidationError } from '../errors';
+import { DrinkSummary, NewIntakeLog, Repositories, Routine, RoutineItem } from '../repositories/types';
+import { FieldErrors } from '../validation/schema';
+import { addDays, weekdayOf } from '../utils/calendar';
+import { limitStatus, resolveDailyLimit } from '../utils/limits';
+import { logger } from '../utils/logger';
+import { fromLocalDateTime, resolveTimezone, toLocalDate } from '../utils/timezone';
+import { resolveAmount } from './servings';
+
+// After downtime the scheduler catches up on at most this much missed schedule
+const MAX_CATCH_UP_MS = 24 * 60 * 60 * 1000;
+
+type Drink = Pick<DrinkSummary, 'id' | 'name' | 'caffeine_per_serving' | 'caffeine_per_100ml' | 'sizes'>;
+
+const hasSize = (drink: Drink, size: string | null) =>
+  size === null || drink.sizes.some((candidate) => candidate.name.toLowerCase() === size.toLowerCase());
+
+const itemLog = (
+  drink: Drink,
+  item: RoutineItem,
+  log: Pick<NewIntakeLog, 'user_id' | 'client_id' | 'status' | 'routine_id' | 'consumed_at' | 'date'>
+): NewIntakeLog => ({
+  ...log,
+  drink_id: drink.id,
+  drink_name: drink.name,
+  ...resolveAmount(drink, { servings: item.servings, size: item.size ?? undefined }),
+  notes: null,
+});
+
+// Every item must name a drink the user can log and, if given, one of its sizes
+export const assertRoutineItems = async ({ drinks }: Repositories, userId: string, items: RoutineItem[]) => {
+  const found = await drinks.findVisibleByIds(userId, [...new Set(items.map((item) => item.drink_id))]);
+  const fields: FieldErrors = {};
+
+  for (const [index, item] of items.entries()) {
+    const drink = found.find((candidate) => candidate.id === item.drink_id);
+
+    if (!drink) {
+      fields[`items.${index}.drink_id`] = 'drink not found';
+    } else if (!hasSize(drink, item.size)) {
+      fields[`items.${index}.size`] = drink.sizes.length > 0
+        ? `must be one of: ${drink.sizes.map((size) => size.name).join(', ')}`
+        : `${drink.name} has no size variants`;
+    }
+  }
+
+  if (Object.keys(fields).length > 0) {
+    throw new ValidationError(fields);
+  }
+};
+
+// Log every item of a routine as consumed now, checked against the daily limit as one amount
+export const logRoutine = async (
+  { drinks, intake, profiles }: Repositories,
+  user: { id: string; timezone: string },
+  routine: Routine,
+  { overrideLimit, now = new Date() }: { overrideLimit: boolean; now?: Date }
+) => {
+  const found = await drinks.findVisibleByIds(user.id, routine.items.map((item) => item.drink_id));
+  const date = toLocalDate(now, user.timezone);
+
+  const logs = routine.items.map((item) => {
+    const drink = found.find((candidate) => candidate.id === item.drink_id);
+
+    // Archived, or its size variant removed, since the routine was saved
+    if (!drink || !hasSize(drink, item.size)) {
+      throw new BadRequestError(
+        `"${routine.name}" includes a drink or size that is no longer available; update the routine`,
+        'routine_item_unavailable',
+        { drink_id: item.drink_id }
+      );
+    }
+
+    return itemLog(drink, item, {
+      user_id: user.id,
+      client_id: null,
+      status: 'logged',
+      routine_id: routine.id,
+      consumed_at: now.toISOString(),
+      date,
+    });
+  });
+
+  const profile = await profiles.findById(user.id);
+  const dayLogs = await intake.listForDay(user.id, date);
+  const dayTotal = dayLogs.reduce((sum, log) => sum + log.total_caffeine, 0);
+  const routineTotal = logs.reduce((sum, log) => sum + log.total_caffeine, 0);
+  const limit_status = limitStatus(resolveDailyLimit(profile?.daily_caffeine_limit), dayTotal, routineTotal);
+
+  if (limit_status.exceeds_limit && profile?.strict_limit_mode && !overrideLimit) {
+    throw new ConflictError('Daily caffeine limit would be exceeded', 'daily_limit_exceeded', { limit_status });
+  }
+
+  return { logs: await intake.createMany(logs), limit_status };
+};
+
+// Scheduled items that fell in (from, to] in the user's timezone, as pending logs. The client_id
+// names the routine, day and item, so an item is never added twice.
+const scheduledLogs = (routine: Routine, found: Drink[], timezone: string, from: Date, to: Date): NewIntakeLog[] => {
+  const logs: NewIntakeLog[] = [];
+
+  for (let day = toLocalDate(from, timezone); day <= toLocalDate(to, timezone); day = addDays(day, 1)) {
+    if (!routine.weekdays.includes(weekdayOf(day))) {
+      continue;
+    }
+
+    for (const [index, item] of routine.items.entries()) {
+      const drink = found.find((candidate) => candidate.id === item.drink_id);
+      // A time skipped by a DST change has no instant
+      const at = fromLocalDateTime(`${day}T${item.time}`, timezone);
+
+      if (!drink || !at || at <= from || at > to) {
+        continue;
+      }
+      if (!hasSize(drink, item.size)) {
+        continue;
+      }
+
+      logs.push(itemLog(drink, item, {
+        user_id: routine.user_id,
+        client_id: `routine:${routine.id}:${day}:${index}`,
+        status: 'pending',
+        routine_id: routine.id,
+        consumed_at: at.toISOString(),
+        date: day,
+      }));
+    }
+  }
+
+  return logs;
+};
+
+// Add pending logs for auto-logged routines whose scheduled times have passed since the last run.
+// Safe to run concurrently: duplicates are skipped by client_id.
+export const addScheduledRoutineLogs = async (repositories: Repositories, now: Date = new Date()) => {
+  const { drinks, intake, profiles, routines } = repositories;
+
+  let added = 0;
+  let failed = 0;
+
+  for (const routine of await routines.listAutoLogged()) {
+    try {
+      // A routine that has never run starts from now rather than back-filling
+      if (routine.scheduled_through) {
+        const from = new Date(Math.max(new Date(routine.scheduled_through).getTime(), now.getTime() - MAX_CATCH_UP_MS));
+        const profile = await profiles.findById(routine.user_id);
+        const found = await drinks.findVisibleByIds(routine.user_id, routine.items.map((item) => item.drink_id));
+
+        const logs = scheduledLogs(routine, found, resolveTimezone(profile?.timezone), from, now);
+        added += (await intake.createManyIfNew(logs)).length;
+      }
+
+      await routines.update(routine.user_id, routine.id, { scheduled_through: now.toISOString() });
+    } catch (error) {
+      failed += 1;
+      logger.error('scheduled routine logging failed', { routine_id: routine.id, user_id: routine.user_id, error });
+    }
+  }
+
+  return { added, failed };
+};
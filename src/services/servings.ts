@@ -0,0 +1,93 @@
+// src/services/servings.ts
+// Turns the amount a user logged (servings, a named size, or a volume) into caffeine.
+import { BadRequestError, ValidationError } from '../errors';
+import { DrinkSummary, IntakeLog } from '../repositories/types';
+import { VolumeUnit, caffeineForVolume, toMilliliters } from '../utils/volume';
+
+// At most one of `size` and `volume` is set (enforced by the schema); `servings` multiplies a size
+export interface AmountInput {
+  servings?: number;
+  size?: string;
+  volume?: number;
+  unit?: VolumeUnit;
+}
+
+export type ResolvedAmount = Pick<
+  IntakeLog,
+  'servings' | 'caffeine_per_serving' | 'measure' | 'size_name' | 'volume_ml' | 'volume_unit' | 'total_caffeine'
+>;
+
+type Drink = Pick<DrinkSummary, 'name' | 'caffeine_per_serving' | 'caffeine_per_100ml' | 'sizes'>;
+
+export const resolveAmount = (drink: Drink, { servings = 1, size, volume, unit = 'ml' }: AmountInput): ResolvedAmount => {
+  if (volume !== undefined) {
+    if (drink.caffeine_per_100ml === null) {
+      throw new BadRequestError(
+        `${drink.name} has no caffeine concentration; log it by servings or size`,
+        'volume_not_supported'
+      );
+    }
+
+    const volumeMl = toMilliliters(volume, unit);
+    return {
+      servings: 1,
+      caffeine_per_serving: drink.caffeine_per_serving,
+      measure: 'volume',
+      size_name: null,
+      volume_ml: volumeMl,
+      volume_unit: unit,
+      total_caffeine: caffeineForVolume(drink.caffeine_per_100ml, volumeMl),
+    };
+  }
+
+  if (size !== undefined) {
+    const variant = drink.sizes.find((candidate) => candidate.name.toLowerCase() === size.toLowerCase());
+    if (!variant) {
+      throw new ValidationError({
+        size: drink.sizes.length > 0
+          ? `must be one of: ${drink.sizes.map((candidate) => candidate.name).join(', ')}`
+          : `${drink.name} has no size variants`
+      });
+    }
+
+    return {
+      servings,
+      caffeine_per_serving: variant.caffeine_mg,
+      measure: 'size',
+      size_name: variant.name,
+      volume_ml: variant.volume_ml === null ? null : variant.volume_ml * servings,
+      volume_unit: null,
+      total_caffeine: Math.round(variant.caffeine_mg * servings),
+    };
+  }
+
+  return {
+    servings,
+    caffeine_per_serving: drink.caffeine_per_serving,
+    measure: 'servings',
+    size_name: null,
+    volume_ml: null,
+    volume_unit: null,
+    total_caffeine: Math.round(drink.caffeine_per_serving * servings),
+  };
+};
+
+// A new serving count for an existing log, priced from the log's own snapshot rather than the
+// drink's current values. Size logs keep their size; a volume log becomes a servings log.
+export const rescaleServings = (
+  log: Pick<IntakeLog, 'caffeine_per_serving' | 'measure' | 'size_name' | 'volume_ml' | 'servings'>,
+  servings: number
+): ResolvedAmount => {
+  const isSize = log.measure === 'size';
+  const perServingVolume = isSize && log.volume_ml !== null ? log.volume_ml / log.servings : null;
+
+  return {
+    servings,
+    caffeine_per_serving: log.caffeine_per_serving,
+    measure: isSize ? 'size' : 'servings',
+    size_name: isSize ? log.size_name : null,
+    volume_ml: perServingVolume === null ? null : perServingVolume * servings,
+    volume_unit: null,
+    total_caffeine: Math.round(log.caffeine_per_serving * servings),
+  };
+};
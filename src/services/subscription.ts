@@ -0,0 +1,249 @@
+// src/services/subscription.ts
+// Single source of truth for subscription state: the allowed statuses, the transitions
+// between them, expiry maths and entitlement. All writes of subscription fields on
+// user_profiles go through updateSubscriptionState.
+import { ProfileRepository, ProfileUpdate } from '../repositories/types';
+import { logger } from '../utils/logger';
+import { PlanId, planForPriceId } from './plans';
+import { BillingSubscription } from '../billing/provider';
+
+export type SubscriptionStatus =
+  | 'inactive'
+  | 'trialing'
+  | 'active'
+  | 'active_until_period_end'
+  | 'past_due'
+  | 'unpaid'
+  | 'paused'
+  | 'cancelled'
+  | 'refunded';
+
+export const SUBSCRIPTION_STATUSES: SubscriptionStatus[] = [
+  'inactive',
+  'trialing',
+  'active',
+  'active_until_period_end',
+  'past_due',
+  'unpaid',
+  'paused',
+  'cancelled',
+  'refunded',
+];
+
+// Statuses that grant access while the paid period (plus grace) hasn't run out. A null
+// expiry only grants access to active lifetime purchases.
+const ENTITLED_STATUSES: SubscriptionStatus[] = ['trialing', 'active', 'active_until_period_end', 'past_due'];
+
+// Statuses of a subscription whose latest renewal hasn't been paid
+const UNPAID_STATUSES: SubscriptionStatus[] = ['past_due', 'unpaid'];
+
+// A status can always be re-applied to itself (e.g. to refresh expiry)
+const TRANSITIONS: Record<SubscriptionStatus, SubscriptionStatus[]> = {
+  inactive: ['trialing', 'active', 'active_until_period_end', 'past_due', 'unpaid', 'paused', 'cancelled'],
+  trialing: ['active', 'active_until_period_end', 'past_due', 'unpaid', 'paused', 'cancelled', 'inactive'],
+  active: ['active_until_period_end', 'past_due', 'unpaid', 'paused', 'cancelled', 'refunded', 'inactive'],
+  active_until_period_end: ['active', 'past_due', 'unpaid', 'paused', 'cancelled', 'refunded', 'inactive'],
+  past_due: ['active', 'active_until_period_end', 'unpaid', 'paused', 'cancelled', 'refunded', 'inactive'],
+  unpaid: ['active', 'active_until_period_end', 'past_due', 'cancelled', 'refunded', 'inactive'],
+  paused: ['active', 'active_until_period_end', 'past_due', 'cancelled', 'inactive'],
+  // Ended subscriptions are never revived; access only returns through a new purchase or
+  // subscription, which updateSubscriptionState lets start over from any status
+  cancelled: ['inactive'],
+  refunded: ['cancelled', 'inactive'],
+};
+
+// Read lazily: this module is imported before app.ts loads .env
+const gracePeriodDays = (): number => parseInt(process.env.SUBSCRIPTION_GRACE_PERIOD_DAYS || '3', 10);
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const isSubscriptionStatus = (value: unknown): value is SubscriptionStatus => {
+  return SUBSCRIPTION_STATUSES.includes(value as SubscriptionStatus);
+};
+
+// Legacy or unknown values stored in the database are treated as inactive
+export const normalizeStatus = (value: unknown): SubscriptionStatus => {
+  return isSubscriptionStatus(value) ? value : 'inactive';
+};
+
+export const canTransition = (from: SubscriptionStatus, to: SubscriptionStatus): boolean => {
+  return from === to || TRANSITIONS[from].includes(to);
+};
+
+// Helper function to convert timestamp to ISO string with validation
+export const timestampToISOString = (timestamp: number | undefined | null): string | null => {
+  if (!timestamp || typeof timestamp !== 'number' || isNaN(timestamp)) {
+    return null;
+  }
+
+  const date = new Date(timestamp * 1000);
+  if (isNaN(date.getTime())) {
+    logger.warn('invalid timestamp', { timestamp });
+    return null;
+  }
+  return date.toISOString();
+};
+
+// Map a billing provider subscription onto our status
+export const statusFromProvider = (subscription: BillingSubscription): SubscriptionStatus => {
+  switch (subscription.status) {
+    case 'trialing':
+      return 'trialing';
+    case 'active':
+      return subscription.cancel_at_period_end ? 'active_until_period_end' : 'active';
+    case 'past_due':
+      return 'past_due';
+    case 'unpaid':
+      return 'unpaid';
+    case 'paused':
+      return 'paused';
+    case 'canceled':
+    case 'incomplete_expired':
+      return 'cancelled';
+    default:
+      return 'inactive';
+  }
+};
+
+export interface SubscriptionState {
+  status: SubscriptionStatus;
+  subscription_id?: string | null;
+  expires_at?: string | null;
+  plan?: PlanId | null;
+  trial_used?: boolean;
+}
+
+export const stateFromSubscription = (subscription: BillingSubscription): SubscriptionState => {
+  const status = statusFromProvider(subscription);
+
+  // Ended subscriptions are detached from the profile
+  if (status === 'cancelled' || status === 'inactive') {
+    return { status, subscription_id: null, expires_at: null, plan: null };
+  }
+
+  const state: SubscriptionState = {
+    status,
+    subscription_id: subscription.id,
+    plan: planForPriceId(subscription.price_id)?.id ?? null,
+  };
+  // During a trial access runs until the trial ends. Once a renewal fails the provider has
+  // already moved on to the unpaid period, so paid access (and grace) runs from its start.
+  const unpaid = UNPAID_STATUSES.includes(status);
+  const expiresAt = timestampToISOString(
+    status === 'trialing'
+      ? subscription.trial_end
+      : unpaid
+        ? subscription.current_period_start
+        : subscription.current_period_end
+  );
+  if (expiresAt) {
+    state.expires_at = expiresAt;
+  }
+  return state;
+};
+
+export type ProfileMatch = { user_id: string } | { stripe_customer_id: string };
+
+export interface UpdateResult {
+  applied: boolean;
+  status: SubscriptionStatus;
+  expires_at: string | null;
+}
+
+export interface UpdateOptions {
+  // Time of the webhook event; changes older than the last applied event are ignored
+  eventTime?: string | null;
+  // Stripe subscription the change comes from; changes for a subscription other than the
+  // profile's current one (e.g. one replaced by lifetime access) are ignored
+  subscriptionId?: string;
+  // A purchase the user just made (new subscription or lifetime access) starts over from any status
+  purchase?: boolean;
+}
+
+// Apply a state change to the matching profile. Invalid transitions are ignored.
+export const updateSubscriptionState = async (
+  profiles: ProfileRepository,
+  match: ProfileMatch,
+  state: SubscriptionState,
+  { eventTime, subscriptionId, purchase = false }: UpdateOptions = {}
+): Promise<UpdateResult> => {
+  const profile = 'user_id' in match
+    ? await profiles.findById(match.user_id)
+    : await profiles.findByStripeCustomerId(match.stripe_customer_id);
+
+  // e.g. a webhook for a Stripe customer created outside the app
+  if (!profile) {
+    return { applied: false, status: 'inactive', expires_at: null };
+  }
+
+  const current = normalizeStatus(profile.subscription_status);
+  const unchanged = { applied: false, status: current, expires_at: profile.subscription_expires_at ?? null };
+
+  if (eventTime && profile.subscription_event_at && new Date(eventTime) < new Date(profile.subscription_event_at)) {
+    return unchanged;
+  }
+
+  let startsOver = purchase;
+  if (subscriptionId && subscriptionId !== profile.subscription_id) {
+    // Only a live subscription may attach to a profile that has none
+    const attachesNew = !profile.subscription_id && state.status !== 'cancelled' && state.status !== 'inactive';
+    if (!attachesNew) {
+      return unchanged;
+    }
+    startsOver = true;
+  }
+
+  if (!startsOver && !canTransition(current, state.status)) {
+    logger.warn('ignoring subscription transition', { from: current, to: state.status, user_id: profile.id });
+    return unchanged;
+  }
+
+  const updateData: ProfileUpdate = { subscription_status: state.status };
+  if (state.subscription_id !== undefined) {
+    updateData.subscription_id = state.subscription_id;
+  }
+  // Further failed renewals roll the period on again, but access still ends with the last
+  // paid period recorded when the first renewal failed
+  const stillUnpaid = UNPAID_STATUSES.includes(current) && UNPAID_STATUSES.includes(state.status);
+  const expiresAt = stillUnpaid && profile.subscription_expires_at ? undefined : state.expires_at;
+  if (expiresAt !== undefined) {
+    updateData.subscription_expires_at = expiresAt;
+  }
+  if (state.plan !== undefined) {
+    updateData.subscription_plan = state.plan;
+  }
+  if (state.trial_used !== undefined) {
+    updateData.trial_used = state.trial_used;
+  }
+  if (eventTime) {
+    updateData.subscription_event_at = eventTime;
+  }
+
+  // Guard against a newer event landing between the read and this write
+  await profiles.update(profile.id, updateData, { ifEventNotAfter: eventTime ?? undefined });
+
+  return {
+    applied: true,
+    status: state.status,
+    expires_at: expiresAt !== undefined ? expiresAt : profile.subscription_expires_at ?? null,
+  };
+};
+
+// Whether a stored status/expiry grants access at `now`, honouring the grace period
+export const isEntitled = (
+  status: unknown,
+  expiresAt: string | null | undefined,
+  plan: string | null | undefined,
+  now: Date = new Date()
+): boolean => {
+  const normalized = normalizeStatus(status);
+  if (!ENTITLED_STATUSES.includes(normalized)) {
+    return false;
+  }
+
+  if (!expiresAt) {
+    return normalized === 'active' && plan === 'lifetime';
+  }
+
+  return new Date(expiresAt).getTime() + gracePeriodDays() * MS_PER_DAY > now.getTime();
+};
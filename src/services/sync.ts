@@ -0,0 +1,182 @@
+// src/services/sync.ts
+// Offline sync for the mobile app: uploading logs queued on the device, and feeds of what
+// changed since the device last synced.
+import { AppError, ConflictError, NotFoundError, ValidationError } from '../errors';
+import { ChangeCursor, IntakeLog, NewIntakeLog, Repositories } from '../repositories/types';
+import { ChangeToken, encodeChangeToken } from '../utils/cursor';
+import { LimitStatus, limitStatus, resolveDailyLimit } from '../utils/limits';
+import { toLocalDate } from '../utils/timezone';
+import { isUuid } from '../utils/uuid';
+import { BatchIntakeEntry } from '../validation/intake';
+import { resolveAmount } from './servings';
+
+// Rows per feed in one response
+const CHANGES_PAGE_SIZE = 500;
+
+// Rows stamped in the last few seconds may still be committing behind ones already visible;
+// they're left for the next sync so none is passed over
+const CHANGES_SETTLE_MS = 5000;
+
+// One result per entry, in the order sent. A duplicate is an entry whose client_id was already
+// logged, by an earlier upload or a concurrent retry; it's reported with the stored log.
+export type BatchResult =
+  | { client_id: string; status: 'created'; log: IntakeLog; limit_status: LimitStatus }
+  | { client_id: string; status: 'duplicate'; log: IntakeLog }
+  | { client_id: string; status: 'failed'; error: string; code: string; [detail: string]: unknown };
+
+const failed = (clientId: string, error: AppError): BatchResult => ({
+  client_id: clientId,
+  status: 'failed',
+  error: error.message,
+  code: error.code,
+  ...error.details,
+});
+
+// Log a batch of entries. Each is checked like POST /api/intake, against the day's logs and the
+// entries before it; the ones that pass are inserted together and the rest reported.
+export const logIntakeBatch = async (
+  { drinks, intake, profiles }: Repositories,
+  user: { id: string; timezone: string },
+  entries: BatchIntakeEntry[]
+) => {
+  const clientIds = entries.map((entry) => entry.client_id);
+  const existing = new Map((await intake.findByClientIds(user.id, clientIds)).map((log) => [log.client_id, log]));
+  const found = new Map(
+    (await drinks.findVisibleByIds(user.id, [...new Set(entries.map((entry) => entry.drink_id.toLowerCase()).filter(isUuid))]))
+      .map((drink) => [drink.id, drink])
+  );
+
+  const profile = await profiles.findById(user.id);
+  const dailyLimit = resolveDailyLimit(profile?.daily_caffeine_limit);
+
+  const dates = entries.map((entry) => toLocalDate(new Date(entry.consumed_at), user.timezone)).sort();
+  const dayTotals = new Map<string, number>();
+  for (const log of await intake.listForDays(user.id, dates[0], dates[dates.length - 1])) {
+    dayTotals.set(log.date, (dayTotals.get(log.date) ?? 0) + log.total_caffeine);
+  }
+
+  const results: BatchResult[] = [];
+  const pending: { index: number; log: NewIntakeLog; limit_status: LimitStatus }[] = [];
+
+  for (const [index, entry] of entries.entries()) {
+    const duplicate = existing.get(entry.client_id);
+    if (duplicate) {
+      results[index] = { client_id: entry.client_id, status: 'duplicate', log: duplicate };
+      continue;
+    }
+
+    try {
+      if (!isUuid(entry.drink_id)) {
+        throw new ValidationError({ drink_id: 'must be a UUID' });
+      }
+
+      const drink = found.get(entry.drink_id.toLowerCase());
+      if (!drink) {
+        throw new NotFoundError('Drink not found', 'drink_not_found');
+      }
+
+      const amount = resolveAmount(drink, entry);
+      const consumedAt = new Date(entry.consumed_at);
+      const date = toLocalDate(consumedAt, user.timezone);
+      const status = limitStatus(dailyLimit, dayTotals.get(date) ?? 0, amount.total_caffeine);
+
+      if (status.exceeds_limit && profile?.strict_limit_mode && !entry.override_limit) {
+        throw new ConflictError('Daily caffeine limit would be exceeded', 'daily_limit_exceeded', { limit_status: status });
+      }
+
+      dayTotals.set(date, status.projected_total);
+      pending.push({
+        index,
+        log: {
+          user_id: user.id,
+          client_id: entry.client_id,
+          status: 'logged',
+          routine_id: null,
+          drink_id: drink.id,
+          drink_name: drink.name,
+          ...amount,
+          consumed_at: consumedAt.toISOString(),
+          date,
+          notes: entry.notes ?? null,
+        },
+        limit_status: status,
+      });
+    } catch (error) {
+      if (!(error instanceof AppError)) {
+        throw error;
+      }
+      results[index] = failed(entry.client_id, error);
+    }
+  }
+
+  const inserted = new Map((await intake.createManyIfNew(pending.map(({ log }) => log))).map((log) => [log.client_id, log]));
+
+  // Entries a concurrent upload inserted first
+  const raced = pending.filter(({ log }) => !inserted.has(log.client_id));
+  const racedLogs = new Map(
+    (await intake.findByClientIds(user.id, raced.map(({ log }) => log.client_id!))).map((log) => [log.client_id, log])
+  );
+
+  for (const { index, log, limit_status } of pending) {
+    const clientId = log.client_id!;
+    const created = inserted.get(clientId);
+    const stored = racedLogs.get(clientId);
+
+    if (created) {
+      results[index] = { client_id: clientId, status: 'created', log: created, limit_status };
+    } else if (stored) {
+      results[index] = { client_id: clientId, status: 'duplicate', log: stored };
+    } else {
+      results[index] = failed(clientId, new ConflictError('Log changed during upload; retry the entry', 'batch_conflict'));
+    }
+  }
+
+  return {
+    results,
+    created: results.filter((result) => result.status === 'created').length,
+    duplicates: results.filter((result) => result.status === 'duplicate').length,
+    failed: results.filter((result) => result.status === 'failed').length,
+  };
+};
+
+// Cut a feed fetched with one extra row down to a page, and note where it ends
+const takePage = <T>(rows: T[], cursorOf: (row: T) => ChangeCursor, previous: ChangeCursor | null) => {
+  const page = rows.slice(0, CHANGES_PAGE_SIZE);
+  return {
+    page,
+    cursor: page.length > 0 ? cursorOf(page[page.length - 1]) : previous,
+    more: rows.length > CHANGES_PAGE_SIZE,
+  };
+};
+
+// Logs created or updated, logs deleted, and drinks changed after `since`. Drinks are archived
+// rather than deleted, so an archived drink arrives as a change with `archived_at` set.
+// `fromDate` leaves out logs on earlier local days (the free-tier history window).
+export const listChanges = async (
+  { drinks, intake }: Repositories,
+  userId: string,
+  since: ChangeToken | null,
+  { fromDate, now = new Date() }: { fromDate?: string; now?: Date } = {}
+) => {
+  const until = new Date(now.getTime() - CHANGES_SETTLE_MS).toISOString();
+  const window = (after: ChangeCursor | null) => ({ after, until, limit: CHANGES_PAGE_SIZE + 1 });
+
+  const [logRows, deletedRows, drinkRows] = await Promise.all([
+    intake.listChanged(userId, { ...window(since?.logs ?? null), fromDate }),
+    intake.listDeleted(userId, window(since?.deleted_logs ?? null)),
+    drinks.listChanged(userId, window(since?.drinks ?? null)),
+  ]);
+
+  const logs = takePage(logRows, (log) => ({ changed_at: log.updated_at, id: log.id }), since?.logs ?? null);
+  const deleted = takePage(deletedRows, (row) => ({ changed_at: row.deleted_at, id: row.id }), since?.deleted_logs ?? null);
+  const changedDrinks = takePage(drinkRows, (drink) => ({ changed_at: drink.updated_at, id: drink.id }), since?.drinks ?? null);
+
+  return {
+    logs: logs.page,
+    deleted_log_ids: deleted.page.map((row) => row.id),
+    drinks: changedDrinks.page,
+    // Pass back as `since`; keep fetching while has_more is true
+    next_since: encodeChangeToken({ logs: logs.cursor, deleted_logs: deleted.cursor, drinks: changedDrinks.cursor }),
+    has_more: logs.more || deleted.more || changedDrinks.more,
+  };
+};
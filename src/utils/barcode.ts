@@ -0,0 +1,30 @@
+// src/utils/barcode.ts
+// Retail barcodes (EAN-8, UPC-A, EAN-13, GTIN-14). UPC-A is stored as its EAN-13 form
+// (leading zero) so a can scanned either way finds the same drink.
+
+const GTIN_LENGTHS = [8, 12, 13, 14];
+
+// GTIN check digit: weights 3,1,3,1... from the right, excluding the check digit itself
+const hasValidCheckDigit = (digits: string): boolean => {
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const digit = Number(body[body.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+};
+
+// Canonical form of a scanned or typed barcode, or null if it isn't a valid GTIN
+export const normalizeBarcode = (value: unknown): string | null => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const digits = value.replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits) || !GTIN_LENGTHS.includes(digits.length) || !hasValidCheckDigit(digits)) {
+    return null;
+  }
+
+  return digits.length === 12 ? `0${digits}` : digits;
+};
@@ -0,0 +1,115 @@
+// src/utils/caffeine.ts
+// Helpers for modelling how much caffeine is still active in the body.
+
+export const DEFAULT_HALF_LIFE_HOURS = 5;
+
+// Logs older than this contribute a negligible amount (< 0.2% at a 5h half-life)
+export const DECAY_LOOKBACK_HOURS = 48;
+
+export const CURVE_HORIZON_HOURS = 24;
+export const CURVE_INTERVAL_MINUTES = 30;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+export interface CaffeineDose {
+  consumed_at: string;
+  total_caffeine: number;
+}
+
+export interface CurvePoint {
+  time: string;
+  caffeine: number;
+}
+
+// Remaining mg of a single dose after `elapsedHours` of exponential decay.
+// Doses logged in the future (elapsedHours < 0) have not been consumed yet.
+export const decayedAmount = (mg: number, elapsedHours: number, halfLifeHours: number): number => {
+  if (elapsedHours < 0) {
+    return 0;
+  }
+  return mg * Math.pow(0.5, elapsedHours / halfLifeHours);
+};
+
+// Total active caffeine at `at` from every dose.
+export const activeCaffeineAt = (
+  doses: CaffeineDose[],
+  at: Date,
+  halfLifeHours: number = DEFAULT_HALF_LIFE_HOURS
+): number => {
+  return doses.reduce((sum, dose) => {
+    const elapsedHours = (at.getTime() - new Date(dose.consumed_at).getTime()) / MS_PER_HOUR;
+    return sum + decayedAmount(dose.total_caffeine, elapsedHours, halfLifeHours);
+  }, 0);
+};
+
+// Samples active caffeine from `from` (inclusive) to `from + horizonHours` at a fixed interval.
+export const decayCurve = (
+  doses: CaffeineDose[],
+  from: Date,
+  halfLifeHours: number = DEFAULT_HALF_LIFE_HOURS,
+  horizonHours: number = CURVE_HORIZON_HOURS,
+  intervalMinutes: number = CURVE_INTERVAL_MINUTES
+): CurvePoint[] => {
+  const points: CurvePoint[] = [];
+  const steps = Math.floor((horizonHours * 60) / intervalMinutes);
+
+  for (let i = 0; i <= steps; i++) {
+    const at = new Date(from.getTime() + i * intervalMinutes * 60 * 1000);
+    points.push({
+      time: at.toISOString(),
+      caffeine: Math.round(activeCaffeineAt(doses, at, halfLifeHours)),
+    });
+  }
+
+  return points;
+};
+
+// Falls back to the default when the stored half-life is missing or nonsensical
+export const resolveHalfLife = (value: unknown): number => {
+  const halfLife = Number(value);
+  if (!value || isNaN(halfLife) || halfLife <= 0) {
+    return DEFAULT_HALF_LIFE_HOURS;
+  }
+  return halfLife;
+};
+
+export const DEFAULT_SLEEP_THRESHOLD_MG = 50;
+
+// Earliest time at or after `from` from which active caffeine stays at or below `thresholdMg`.
+// Between doses the total decays as a single exponential, so the curve is scanned forward one
+// stretch at a time from `from`, solving each stretch's crossing point directly. A later dose
+// that lifts the total back over the threshold discards any earlier crossing.
+export const timeUntilBelow = (
+  doses: CaffeineDose[],
+  from: Date,
+  thresholdMg: number,
+  halfLifeHours: number = DEFAULT_HALF_LIFE_HOURS
+): Date => {
+  const doseTimes = doses
+    .map((dose) => new Date(dose.consumed_at).getTime())
+    .filter((time) => time > from.getTime());
+  const starts = [from.getTime(), ...Array.from(new Set(doseTimes)).sort((a, b) => a - b)];
+
+  let belowFrom: number | null = null;
+  for (let i = 0; i < starts.length; i++) {
+    const start = starts[i];
+    const end = i + 1 < starts.length ? starts[i + 1] : Infinity;
+    const active = activeCaffeineAt(doses, new Date(start), halfLifeHours);
+
+    if (active <= thresholdMg) {
+      belowFrom = belowFrom ?? start;
+      continue;
+    }
+
+    const crossing = thresholdMg > 0
+      ? start + halfLifeHours * Math.log2(active / thresholdMg) * MS_PER_HOUR
+      : Infinity;
+    belowFrom = crossing < end ? crossing : null;
+  }
+
+  if (belowFrom === null) {
+    throw new Error('Threshold must be positive to be reachable');
+  }
+
+  return new Date(belowFrom);
+};
@@ -0,0 +1,65 @@
+// src/utils/calendar.ts
+// Arithmetic on calendar days stored as YYYY-MM-DD strings (no timezone involved).
+
+export type Granularity = 'day' | 'week' | 'month';
+
+export const GRANULARITIES: Granularity[] = ['day', 'week', 'month'];
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const parseDay = (day: string): Date => new Date(`${day}T00:00:00.000Z`);
+const formatDay = (date: Date): string => date.toISOString().split('T')[0];
+
+export const isValidDay = (day: unknown): day is string => {
+  if (typeof day !== 'string' || !DATE_PATTERN.test(day)) {
+    return false;
+  }
+  const parsed = parseDay(day);
+  return !isNaN(parsed.getTime()) && formatDay(parsed) === day;
+};
+
+export const addDays = (day: string, days: number): string => {
+  return formatDay(new Date(parseDay(day).getTime() + days * MS_PER_DAY));
+};
+
+export const weekdayOf = (day: string): Weekday => {
+  return WEEKDAYS[(parseDay(day).getUTCDay() + 6) % 7]; // getUTCDay: 0 = Sunday
+};
+
+// Inclusive number of days between two days
+export const daysBetween = (from: string, to: string): number => {
+  return Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / MS_PER_DAY) + 1;
+};
+
+// First day of the period containing `day`. Weeks start on Monday (ISO 8601).
+export const periodStart = (day: string, granularity: Granularity): string => {
+  if (granularity === 'day') {
+    return day;
+  }
+
+  if (granularity === 'week') {
+    const weekday = parseDay(day).getUTCDay(); // 0 = Sunday
+    return addDays(day, -((weekday + 6) % 7));
+  }
+
+  return `${day.slice(0, 7)}-01`;
+};
+
+// Last day of the period that starts on `start`
+export const periodEnd = (start: string, granularity: Granularity): string => {
+  if (granularity === 'day') {
+    return start;
+  }
+
+  if (granularity === 'week') {
+    return addDays(start, 6);
+  }
+
+  const date = parseDay(start);
+  return formatDay(new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)));
+};
@@ -0,0 +1,70 @@
+// src/utils/cursor.ts
+import { ChangeCursor, IntakeCursor } from '../repositories/types';
+import { isUuid } from './uuid';
+
+// Cursors are opaque to clients: base64url of "<consumed_at>|<id>" of the last row returned
+export const encodeCursor = (log: IntakeCursor): string => {
+  return Buffer.from(`${log.consumed_at}|${log.id}`).toString('base64url');
+};
+
+// Rebuilt from parts rather than passed through, since cursors end up in query filters
+export const decodeCursor = (cursor: string): IntakeCursor | null => {
+  const [consumed_at, id, ...rest] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  const consumedAt = consumed_at ? new Date(consumed_at) : null;
+  if (!consumedAt || isNaN(consumedAt.getTime()) || !isUuid(id) || rest.length > 0) {
+    return null;
+  }
+  return { consumed_at: consumedAt.toISOString(), id: id.toLowerCase() };
+};
+
+// Where each changes feed left off. Clients get it back as `next_since` and pass it as `since`.
+export interface ChangeToken {
+  logs: ChangeCursor | null;
+  deleted_logs: ChangeCursor | null;
+  drinks: ChangeCursor | null;
+}
+
+const FEEDS: (keyof ChangeToken)[] = ['logs', 'deleted_logs', 'drinks'];
+
+export const encodeChangeToken = (token: ChangeToken): string => {
+  return Buffer.from(JSON.stringify(token)).toString('base64url');
+};
+
+// Rebuilt from parts rather than passed through, since cursors end up in query filters
+const toChangeCursor = (value: unknown): ChangeCursor | null | undefined => {
+  if (value === null) {
+    return null;
+  }
+
+  const { changed_at, id } = (value ?? {}) as Record<string, unknown>;
+  const changedAt = typeof changed_at === 'string' ? new Date(changed_at) : null;
+  if (!changedAt || isNaN(changedAt.getTime()) || !(id === null || (typeof id === 'string' && /^[\w-]+$/.test(id)))) {
+    return undefined;
+  }
+  return { changed_at: changedAt.toISOString(), id };
+};
+
+// Accepts a token from a previous response, or an ISO 8601 timestamp to start every feed after
+export const decodeChangeToken = (value: string): ChangeToken | null => {
+  if (/^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    const cursor = toChangeCursor({ changed_at: value, id: null });
+    return cursor ? { logs: cursor, deleted_logs: cursor, drinks: cursor } : null;
+  }
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) ?? {};
+  } catch {
+    return null;
+  }
+
+  const token: Partial<ChangeToken> = {};
+  for (const feed of FEEDS) {
+    const cursor = toChangeCursor(parsed[feed]);
+    if (cursor === undefined) {
+      return null;
+    }
+    token[feed] = cursor;
+  }
+  return token as ChangeToken;
+};
@@ -0,0 +1,42 @@
+// src/utils/drinkUsage.ts
+// Per-drink usage derived from intake logs, for the "recent" and "top" lists on the log-a-drink screen.
+import { IntakeLog } from '../repositories/types';
+
+// How far back recent and top drinks look
+export const USAGE_WINDOW_DAYS = 90;
+
+export interface DrinkUsage {
+  drink_id: string;
+  log_count: number;
+  last_consumed_at: string;
+}
+
+export const summarizeDrinkUsage = (logs: Pick<IntakeLog, 'drink_id' | 'consumed_at'>[]): DrinkUsage[] => {
+  const byDrink = new Map<string, DrinkUsage>();
+
+  for (const log of logs) {
+    const usage = byDrink.get(log.drink_id);
+    if (!usage) {
+      byDrink.set(log.drink_id, { drink_id: log.drink_id, log_count: 1, last_consumed_at: log.consumed_at });
+    } else {
+      usage.log_count += 1;
+      if (log.consumed_at > usage.last_consumed_at) {
+        usage.last_consumed_at = log.consumed_at;
+      }
+    }
+  }
+
+  return [...byDrink.values()];
+};
+
+// Most recently logged first
+export const recentDrinks = (usage: DrinkUsage[]): DrinkUsage[] => {
+  return [...usage].sort((a, b) => b.last_consumed_at.localeCompare(a.last_consumed_at));
+};
+
+// Most often logged first; ties go to the drink logged more recently
+export const topDrinks = (usage: DrinkUsage[]): DrinkUsage[] => {
+  return [...usage].sort((a, b) =>
+    b.log_count - a.log_count || b.last_consumed_at.localeCompare(a.last_consumed_at)
+  );
+};
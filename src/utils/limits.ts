@@ -0,0 +1,36 @@
+// src/utils/limits.ts
+// Daily caffeine limit bookkeeping shared by intake logging and daily summaries.
+
+// FDA guidance for healthy adults
+export const DEFAULT_DAILY_LIMIT_MG = 400;
+
+export interface LimitStatus {
+  limit: number;
+  day_total: number;
+  projected_total: number;
+  remaining: number;
+  percent_of_limit: number;
+  exceeds_limit: boolean;
+}
+
+export const resolveDailyLimit = (value: unknown): number => {
+  const limit = Number(value);
+  if (!value || isNaN(limit) || limit <= 0) {
+    return DEFAULT_DAILY_LIMIT_MG;
+  }
+  return limit;
+};
+
+// Where the day stands against the limit once `additionalMg` is added to `dayTotal`
+export const limitStatus = (limit: number, dayTotal: number, additionalMg: number = 0): LimitStatus => {
+  const projected = dayTotal + additionalMg;
+
+  return {
+    limit,
+    day_total: dayTotal,
+    projected_total: projected,
+    remaining: Math.max(limit - projected, 0),
+    percent_of_limit: Math.round((projected / limit) * 100),
+    exceeds_limit: projected > limit,
+  };
+};
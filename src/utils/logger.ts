@@ -0,0 +1,51 @@
+// src/utils/logger.ts
+// Structured logging: one JSON object per line on stdout (stderr for errors), which the
+// platform log drain can index by field.
+type Level = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Level[] = ['debug', 'info', 'warn', 'error'];
+
+// Read lazily: modules log before app.ts loads .env
+const minLevel = (): number => {
+  const configured = LEVELS.indexOf(process.env.LOG_LEVEL as Level);
+  return configured === -1 ? LEVELS.indexOf('info') : configured;
+};
+
+// Errors don't serialise to JSON on their own
+export const serializeError = (error: unknown): LogFields => {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+  // Supabase errors are plain objects ({ message, code, details, hint })
+  if (error && typeof error === 'object') {
+    return { ...error };
+  }
+  return { message: String(error) };
+};
+
+const write = (level: Level, message: string, fields: LogFields = {}) => {
+  if (LEVELS.indexOf(level) < minLevel()) {
+    return;
+  }
+
+  const entry: LogFields = { level, time: new Date().toISOString(), message, ...fields };
+  if (entry.error !== undefined) {
+    entry.error = serializeError(entry.error);
+  }
+
+  const line = JSON.stringify(entry);
+  if (level === 'error') {
+    process.stderr.write(line + '\n');
+  } else {
+    process.stdout.write(line + '\n');
+  }
+};
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields),
+};
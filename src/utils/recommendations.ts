@@ -0,0 +1,97 @@
+// src/utils/recommendations.ts
+// Personalised caffeine guidance derived from the optional health fields on user_profiles.
+// Figures follow FDA / EFSA guidance; this is a starting point, not medical advice.
+
+import { DEFAULT_HALF_LIFE_HOURS } from './caffeine';
+import { DEFAULT_DAILY_LIMIT_MG } from './limits';
+
+export type PregnancyStatus = 'none' | 'pregnant' | 'breastfeeding';
+export type CaffeineSensitivity = 'low' | 'normal' | 'high';
+
+export const PREGNANCY_STATUSES: PregnancyStatus[] = ['none', 'pregnant', 'breastfeeding'];
+export const CAFFEINE_SENSITIVITIES: CaffeineSensitivity[] = ['low', 'normal', 'high'];
+
+// Medications known to slow caffeine clearance, with the approximate half-life multiplier
+export const CLEARANCE_MEDICATIONS: Record<string, number> = {
+  oral_contraceptives: 2,
+  fluvoxamine: 4,
+  ciprofloxacin: 1.5,
+  cimetidine: 1.5,
+};
+
+const PREGNANCY_DAILY_LIMIT_MG = 200;
+const PREGNANCY_HALF_LIFE_MULTIPLIER = 2;
+const SINGLE_DOSE_LIMIT_MG = 200;
+const SINGLE_DOSE_MG_PER_KG = 3;
+const DAILY_MG_PER_KG = 5.7;
+const HIGH_SENSITIVITY_FACTOR = 0.5;
+
+// Bounds accepted by PUT /daily-limit and PUT /half-life
+const MIN_DAILY_LIMIT_MG = 50;
+const MAX_DAILY_LIMIT_MG = 1000;
+const MAX_HALF_LIFE_HOURS = 24;
+
+export interface HealthProfile {
+  body_weight_kg?: number | null;
+  pregnancy_status?: PregnancyStatus | null;
+  caffeine_sensitivity?: CaffeineSensitivity | null;
+  medications?: string[] | null;
+}
+
+export interface Recommendation {
+  daily_caffeine_limit: number;
+  single_dose_limit: number;
+  caffeine_half_life_hours: number;
+  reasons: string[];
+}
+
+const roundTo = (value: number, step: number): number => Math.round(value / step) * step;
+
+export const recommendLimits = (profile: HealthProfile): Recommendation => {
+  const reasons: string[] = [];
+  let dailyLimit = DEFAULT_DAILY_LIMIT_MG;
+  let singleDose = SINGLE_DOSE_LIMIT_MG;
+  let halfLife = DEFAULT_HALF_LIFE_HOURS;
+
+  if (profile.pregnancy_status === 'pregnant' || profile.pregnancy_status === 'breastfeeding') {
+    dailyLimit = PREGNANCY_DAILY_LIMIT_MG;
+    reasons.push(`Limited to ${PREGNANCY_DAILY_LIMIT_MG} mg/day during pregnancy and breastfeeding`);
+  } else {
+    reasons.push(`${DEFAULT_DAILY_LIMIT_MG} mg/day is considered safe for healthy adults`);
+  }
+
+  if (profile.pregnancy_status === 'pregnant') {
+    halfLife *= PREGNANCY_HALF_LIFE_MULTIPLIER;
+    reasons.push('Caffeine clearance slows during pregnancy');
+  }
+
+  if (profile.body_weight_kg) {
+    const byWeight = profile.body_weight_kg * DAILY_MG_PER_KG;
+    if (byWeight < dailyLimit) {
+      dailyLimit = byWeight;
+      reasons.push(`Scaled to ${DAILY_MG_PER_KG} mg/kg for a body weight of ${profile.body_weight_kg} kg`);
+    }
+    singleDose = Math.min(singleDose, profile.body_weight_kg * SINGLE_DOSE_MG_PER_KG);
+  }
+
+  if (profile.caffeine_sensitivity === 'high') {
+    dailyLimit *= HIGH_SENSITIVITY_FACTOR;
+    singleDose *= HIGH_SENSITIVITY_FACTOR;
+    reasons.push('Halved for high caffeine sensitivity');
+  }
+
+  for (const medication of profile.medications ?? []) {
+    const multiplier = CLEARANCE_MEDICATIONS[medication];
+    if (multiplier) {
+      halfLife *= multiplier;
+      reasons.push(`${medication.replace(/_/g, ' ')} slows caffeine clearance`);
+    }
+  }
+
+  return {
+    daily_caffeine_limit: Math.min(Math.max(roundTo(dailyLimit, 10), MIN_DAILY_LIMIT_MG), MAX_DAILY_LIMIT_MG),
+    single_dose_limit: roundTo(singleDose, 5),
+    caffeine_half_life_hours: Math.min(roundTo(halfLife, 0.5), MAX_HALF_LIFE_HOURS),
+    reasons,
+  };
+};
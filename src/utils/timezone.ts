@@ -0,0 +1,73 @@
+// src/utils/timezone.ts
+// Local-day bucketing for intake logs. `intake_logs.date` is always the user's local calendar day.
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export const isValidTimezone = (timezone: unknown): timezone is string => {
+  if (typeof timezone !== 'string' || !timezone) {
+    return false;
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Falls back to UTC when the stored timezone is missing or no longer recognised
+export const resolveTimezone = (timezone: unknown): string => {
+  return isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+};
+
+// Calendar day (YYYY-MM-DD) of `date` as seen in `timezone`
+export const toLocalDate = (date: Date, timezone: string = DEFAULT_TIMEZONE): string => {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+};
+
+// Hour of the day (0-23) of `date` as seen in `timezone`
+export const toLocalHour = (date: Date, timezone: string = DEFAULT_TIMEZONE): number => {
+  return Number(new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    hour: '2-digit',
+  }).format(date));
+};
+
+// Milliseconds `timezone` is ahead of UTC at `date`
+const offsetAt = (date: Date, timezone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)!.value);
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// The instant a wall-clock time (e.g. "2024-03-01T08:30") occurs in `timezone`. Times skipped
+// by a DST jump resolve to the instant an hour later on the clock.
+export const fromLocalDateTime = (local: string, timezone: string = DEFAULT_TIMEZONE): Date | null => {
+  const naive = new Date(`${local}Z`);
+  if (isNaN(naive.getTime())) {
+    return null;
+  }
+
+  const guess = new Date(naive.getTime() - offsetAt(naive, timezone));
+  return new Date(naive.getTime() - offsetAt(guess, timezone));
+};
@@ -0,0 +1,9 @@
+// src/utils/uuid.ts
+// Row ids are Postgres uuids; anything else passed to a query fails there with a 500
+// instead of simply not matching.
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const isUuid = (value: unknown): value is string => {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+};
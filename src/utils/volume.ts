@@ -0,0 +1,21 @@
+// src/utils/volume.ts
+// Volume units accepted when logging an explicit amount. Everything is stored in millilitres.
+
+export const VOLUME_UNITS = ['ml', 'fl_oz'] as const;
+
+export type VolumeUnit = typeof VOLUME_UNITS[number];
+
+// US customary fluid ounce
+const ML_PER_UNIT: Record<VolumeUnit, number> = {
+  ml: 1,
+  fl_oz: 29.5735,
+};
+
+export const toMilliliters = (amount: number, unit: VolumeUnit): number => {
+  return Math.round(amount * ML_PER_UNIT[unit] * 10) / 10;
+};
+
+// Caffeine in `volumeMl` of a drink with the given concentration
+export const caffeineForVolume = (caffeinePer100ml: number, volumeMl: number): number => {
+  return Math.round((caffeinePer100ml * volumeMl) / 100);
+};
@@ -0,0 +1,45 @@
+// src/validation/admin.ts
+import { AccountDeletionStatus, SubmissionStatus } from '../repositories/types';
+import { number, object, oneOf, string, uuid, withDefault } from './schema';
+
+export const DEFAULT_QUEUE_PAGE_SIZE = 50;
+export const MAX_QUEUE_PAGE_SIZE = 100;
+
+const SUBMISSION_STATUSES: readonly SubmissionStatus[] = ['pending', 'approved', 'rejected'];
+
+const ACCOUNT_DELETION_STATUSES: readonly AccountDeletionStatus[] = ['scheduled', 'cancelled', 'processing', 'completed'];
+
+const submissionIdParams = object({ id: uuid() });
+
+export const listSubmissionsSchema = {
+  query: object({
+    status: withDefault(oneOf(SUBMISSION_STATUSES), 'pending'),
+    limit: withDefault(
+      number({ integer: true, min: 1, max: MAX_QUEUE_PAGE_SIZE, coerce: true }),
+      DEFAULT_QUEUE_PAGE_SIZE
+    ),
+    offset: withDefault(number({ integer: true, min: 0, coerce: true }), 0),
+  }),
+};
+
+export const approveSubmissionSchema = {
+  params: submissionIdParams,
+};
+
+// Deletion audit log, newest first
+export const listAccountDeletionsSchema = {
+  query: object({
+    status: withDefault(oneOf(ACCOUNT_DELETION_STATUSES), 'completed'),
+    limit: withDefault(
+      number({ integer: true, min: 1, max: MAX_QUEUE_PAGE_SIZE, coerce: true }),
+      DEFAULT_QUEUE_PAGE_SIZE
+    ),
+    offset: withDefault(number({ integer: true, min: 0, coerce: true }), 0),
+  }),
+};
+
+// The reason is shown to the submitter
+export const rejectSubmissionSchema = {
+  params: submissionIdParams,
+  body: object({ reason: string({ max: 500 }) }),
+};
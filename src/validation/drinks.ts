@@ -0,0 +1,118 @@
+// src/validation/drinks.ts
+import { normalizeBarcode } from '../utils/barcode';
+import { DrinkSize } from '../repositories/types';
+import { Infer, Validator, arrayOf, custom, nullable, number, object, optional, string, uuid, withDefault } from './schema';
+
+export const DEFAULT_SEARCH_PAGE_SIZE = 50;
+export const MAX_SEARCH_PAGE_SIZE = 100;
+export const DEFAULT_TOP_DRINKS = 5;
+export const MAX_USAGE_LIST = 50;
+export const MAX_DRINK_SIZES = 10;
+
+const barcode = custom((value) => normalizeBarcode(value) ?? undefined, 'must be a valid EAN-8, UPC-A, EAN-13 or GTIN-14 barcode');
+
+const drinkSizeFields = object({
+  name: string({ max: 30 }),
+  caffeine_mg: number({ min: 0, max: 2000 }),
+  volume_ml: nullable(number({ positive: true, max: 5000 })),
+});
+
+// An omitted volume is stored as null so every size has the same shape
+const drinkSize: Validator<DrinkSize> = (value, path, errors) => {
+  const size = drinkSizeFields(value, path, errors);
+  return size && { ...size, volume_ml: size.volume_ml ?? null };
+};
+
+// Sizes are picked by name when logging, so names must be unique (ignoring case)
+const checkSizeNames = ({ sizes }: { sizes?: DrinkSize[] }) => {
+  const names = (sizes ?? []).map((size) => size.name.toLowerCase());
+  return new Set(names).size < names.length ? { sizes: 'must not repeat a size name' } : null;
+};
+
+const drinkFields = {
+  name: string({ max: 100 }),
+  // 0 is valid: decaf and caffeine-free drinks are logged too
+  caffeine_per_serving: number({ min: 0, max: 2000 }),
+  category: string({ max: 50 }),
+  brand: nullable(string({ max: 100 })),
+  serving_size: nullable(string({ max: 50 })),
+  caffeine_per_100ml: nullable(number({ min: 0, max: 1000 })),
+  sizes: optional(arrayOf(drinkSize, { max: MAX_DRINK_SIZES })),
+  barcode: nullable(barcode),
+};
+
+export const drinkIdParams = object({ id: uuid() });
+
+export const createDrinkSchema = {
+  body: object(drinkFields, { check: checkSizeNames }),
+};
+
+// Partial update; required fields may be omitted but not cleared
+export const updateDrinkSchema = {
+  params: drinkIdParams,
+  body: object({
+    name: optional(drinkFields.name),
+    caffeine_per_serving: optional(drinkFields.caffeine_per_serving),
+    category: optional(drinkFields.category),
+    brand: drinkFields.brand,
+    serving_size: drinkFields.serving_size,
+    caffeine_per_100ml: drinkFields.caffeine_per_100ml,
+    // Replaces the whole list; [] removes every size
+    sizes: drinkFields.sizes,
+    barcode: drinkFields.barcode,
+  }, { nonEmpty: true, check: checkSizeNames }),
+};
+
+export const deleteDrinkSchema = {
+  params: drinkIdParams,
+};
+
+export const restoreDrinkSchema = {
+  params: drinkIdParams,
+};
+
+export const submitDrinkSchema = {
+  params: drinkIdParams,
+};
+
+export const shareDrinkSchema = {
+  params: drinkIdParams,
+};
+
+export const sharedDrinkSchema = {
+  params: object({ token: string({ max: 64 }) }),
+};
+
+export const searchDrinksSchema = {
+  query: object({
+    q: optional(string({ max: 100 })),
+    category: optional(drinkFields.category),
+    limit: withDefault(
+      number({ integer: true, min: 1, max: MAX_SEARCH_PAGE_SIZE, coerce: true }),
+      DEFAULT_SEARCH_PAGE_SIZE
+    ),
+    offset: withDefault(number({ integer: true, min: 0, coerce: true }), 0),
+  }),
+};
+
+export const barcodeLookupSchema = {
+  params: object({ code: barcode }),
+};
+
+export const favoriteDrinkSchema = {
+  params: drinkIdParams,
+};
+
+const usageLimit = (fallback: number) =>
+  withDefault(number({ integer: true, min: 1, max: MAX_USAGE_LIST, coerce: true }), fallback);
+
+export const recentDrinksSchema = {
+  query: object({ limit: usageLimit(20) }),
+};
+
+export const topDrinksSchema = {
+  query: object({ limit: usageLimit(DEFAULT_TOP_DRINKS) }),
+};
+
+export type CreateDrinkBody = Infer<typeof createDrinkSchema.body>;
+export type UpdateDrinkBody = Infer<typeof updateDrinkSchema.body>;
@@ -0,0 +1,190 @@
+// src/validation/intake.ts
+import { GRANULARITIES } from '../utils/calendar';
+import { DEFAULT_SLEEP_THRESHOLD_MG } from '../utils/caffeine';
+import { decodeChangeToken, decodeCursor } from '../utils/cursor';
+import { VOLUME_UNITS } from '../utils/volume';
+import {
+  FieldErrors,
+  Infer,
+  arrayOf,
+  boolean,
+  custom,
+  dateTime,
+  day,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  uuid,
+  withDefault
+} from './schema';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+export const MAX_SERVINGS = 20;
+export const MAX_BATCH_SIZE = 100;
+export const DEFAULT_INSIGHTS_DAYS = 30;
+export const MAX_INSIGHTS_DAYS = 365;
+// Afternoon caffeine is the usual culprit for disrupted sleep
+export const DEFAULT_LATE_HOUR = 14;
+// Sanity cap, in whichever unit is given
+const MAX_VOLUME = 5000;
+
+const servings = number({ positive: true, max: MAX_SERVINGS });
+const notes = nullable(string({ max: 500 }));
+// Generated by the client (e.g. a UUID) so a retried submission isn't logged twice
+const clientId = string({ max: 64 });
+
+// Servings (optionally of a named size) or an explicit volume; resolved against the drink
+const amountFields = {
+  servings: optional(servings),
+  size: optional(string({ max: 30 })),
+  volume: optional(number({ positive: true, max: MAX_VOLUME })),
+  unit: optional(oneOf(VOLUME_UNITS)),
+};
+
+const checkAmount = ({ servings, size, volume, unit }: {
+  servings?: number;
+  size?: string;
+  volume?: number;
+  unit?: string;
+}): FieldErrors | null => {
+  if (volume !== undefined && servings !== undefined) {
+    return { volume: 'cannot be combined with servings' };
+  }
+  if (volume !== undefined && size !== undefined) {
+    return { volume: 'cannot be combined with size' };
+  }
+  if (unit !== undefined && volume === undefined) {
+    return { unit: 'requires volume' };
+  }
+  return null;
+};
+
+const logIdParams = object({ id: uuid() });
+
+const dayRangeFields = {
+  from: optional(day()),
+  to: optional(day()),
+};
+
+const checkDayRange = ({ from, to }: { from?: string; to?: string }) => {
+  return from && to && from > to ? { from: 'must be on or before to' } : null;
+};
+
+export const createIntakeSchema = {
+  body: object({
+    client_id: optional(clientId),
+    drink_id: uuid(),
+    ...amountFields,
+    consumed_at: optional(dateTime()),
+    notes,
+    override_limit: withDefault(boolean(), false),
+  }, { check: checkAmount }),
+};
+
+// Entries queued on the device; consumed_at is required since the upload may come much later
+const batchEntry = object({
+  client_id: clientId,
+  // Checked per entry by the sync service, so one bad id fails that entry rather than the batch
+  drink_id: string({ max: 64 }),
+  ...amountFields,
+  consumed_at: dateTime(),
+  notes,
+  override_limit: withDefault(boolean(), false),
+}, { check: checkAmount });
+
+export const batchIntakeSchema = {
+  body: object({
+    entries: arrayOf(batchEntry, { max: MAX_BATCH_SIZE }),
+  }, {
+    check: ({ entries }) => {
+      if (entries.length === 0) {
+        return { entries: 'must have at least one entry' };
+      }
+      const clientIds = entries.map((entry) => entry.client_id);
+      return new Set(clientIds).size < clientIds.length ? { entries: 'client_id must be unique within a batch' } : null;
+    },
+  }),
+};
+
+// Without `since` the feeds start from the beginning
+export const changesSchema = {
+  query: object({
+    since: optional(custom(
+      (value) => (typeof value === 'string' ? decodeChangeToken(value) ?? undefined : undefined),
+      'must be a next_since value or an ISO 8601 timestamp'
+    )),
+  }),
+};
+
+export const dailyIntakeSchema = {
+  params: object({ date: day() }),
+};
+
+export const historySchema = {
+  query: object({
+    ...dayRangeFields,
+    granularity: withDefault(oneOf(GRANULARITIES), 'day'),
+  }, { check: checkDayRange }),
+};
+
+export const listLogsSchema = {
+  query: object({
+    ...dayRangeFields,
+    limit: withDefault(number({ integer: true, min: 1, max: MAX_PAGE_SIZE, coerce: true }), DEFAULT_PAGE_SIZE),
+    cursor: optional(custom(
+      (value) => (typeof value === 'string' ? decodeCursor(value) ?? undefined : undefined),
+      'is not a valid cursor'
+    )),
+  }, { check: checkDayRange }),
+};
+
+export const insightsSchema = {
+  query: object({
+    days: withDefault(number({ integer: true, min: 7, max: MAX_INSIGHTS_DAYS, coerce: true }), DEFAULT_INSIGHTS_DAYS),
+    late_hour: withDefault(number({ integer: true, min: 0, max: 23, coerce: true }), DEFAULT_LATE_HOUR),
+  }),
+};
+
+export const forecastSchema = {
+  body: object({
+    threshold: withDefault(number({ positive: true, max: 1000 }), DEFAULT_SLEEP_THRESHOLD_MG),
+    bedtime: optional(dateTime()),
+    // Optional hypothetical drink to simulate
+    drink_id: optional(uuid()),
+    ...amountFields,
+    consumed_at: optional(dateTime()),
+  }, { check: checkAmount }),
+};
+
+export const updateIntakeSchema = {
+  params: logIdParams,
+  body: object({
+    ...amountFields,
+    consumed_at: optional(dateTime()),
+    notes,
+  }, { nonEmpty: true, check: checkAmount }),
+};
+
+export const deleteIntakeSchema = {
+  params: logIdParams,
+};
+
+export const confirmIntakeSchema = {
+  params: logIdParams,
+  body: object({
+    override_limit: withDefault(boolean(), false),
+  }),
+};
+
+export const dismissIntakeSchema = {
+  params: logIdParams,
+};
+
+export type CreateIntakeBody = Infer<typeof createIntakeSchema.body>;
+export type BatchIntakeEntry = Infer<typeof batchEntry>;
+export type UpdateIntakeBody = Infer<typeof updateIntakeSchema.body>;
+export type ForecastBody = Infer<typeof forecastSchema.body>;
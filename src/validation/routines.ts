@@ -0,0 +1,92 @@
+// src/validation/routines.ts
+import { RoutineItem } from '../repositories/types';
+import { WEEKDAYS, Weekday } from '../utils/calendar';
+import {
+  FieldErrors,
+  Validator,
+  arrayOf,
+  boolean,
+  custom,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  uuid,
+  withDefault
+} from './schema';
+import { MAX_SERVINGS } from './intake';
+
+export const MAX_ROUTINES = 20;
+export const MAX_ROUTINE_ITEMS = 20;
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const routineIdParams = object({ id: uuid() });
+
+const routineItemFields = object({
+  drink_id: uuid(),
+  servings: withDefault(number({ positive: true, max: MAX_SERVINGS }), 1),
+  size: nullable(string({ max: 30 })),
+  time: custom((value) => (typeof value === 'string' && TIME_OF_DAY.test(value) ? value : undefined), 'must be a time as HH:MM'),
+});
+
+// An omitted size is stored as null so every item has the same shape
+const routineItem: Validator<RoutineItem> = (value, path, errors) => {
+  const item = routineItemFields(value, path, errors);
+  return item && { ...item, size: item.size ?? null };
+};
+
+// Stored deduplicated, in week order
+const weekdays: Validator<Weekday[]> = (value, path, errors) => {
+  const days = arrayOf(oneOf(WEEKDAYS), { max: WEEKDAYS.length })(value, path, errors);
+  return days && WEEKDAYS.filter((day) => days.includes(day));
+};
+
+const items = arrayOf(routineItem, { max: MAX_ROUTINE_ITEMS });
+
+// Only a routine on a schedule has anything to auto-log
+const checkRoutine = ({ items, weekdays, auto_log }: {
+  items?: RoutineItem[];
+  weekdays?: Weekday[];
+  auto_log?: boolean;
+}): FieldErrors | null => {
+  if (items?.length === 0) {
+    return { items: 'must have at least one item' };
+  }
+  if (auto_log && weekdays?.length === 0) {
+    return { auto_log: 'requires at least one weekday' };
+  }
+  return null;
+};
+
+export const createRoutineSchema = {
+  body: object({
+    name: string({ max: 100 }),
+    items,
+    weekdays: withDefault(weekdays, []),
+    auto_log: withDefault(boolean(), false),
+  }, { check: checkRoutine }),
+};
+
+export const updateRoutineSchema = {
+  params: routineIdParams,
+  body: object({
+    name: optional(string({ max: 100 })),
+    items: optional(items),
+    weekdays: optional(weekdays),
+    auto_log: optional(boolean()),
+  }, { nonEmpty: true, check: checkRoutine }),
+};
+
+export const routineSchema = {
+  params: routineIdParams,
+};
+
+export const logRoutineSchema = {
+  params: routineIdParams,
+  body: object({
+    override_limit: withDefault(boolean(), false),
+  }),
+};
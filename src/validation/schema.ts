@@ -0,0 +1,212 @@
+// src/validation/schema.ts
+// Minimal schema combinators for request validation. A validator checks one value and
+// returns it (possibly normalised); problems are recorded in `errors` keyed by field path.
+import { isValidDay } from '../utils/calendar';
+import { isUuid } from '../utils/uuid';
+
+export type FieldErrors = Record<string, string>;
+
+// Returns undefined when the value is invalid, having recorded why in `errors`
+export type Validator<T> = (value: unknown, path: string, errors: FieldErrors) => T | undefined;
+
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; errors: FieldErrors };
+
+// `root` names errors about the value as a whole, e.g. "body" when it isn't an object
+export const parse = <T>(validator: Validator<T>, value: unknown, root = 'body'): ParseResult<T> => {
+  const errors: FieldErrors = {};
+  const result = validator(value, '', errors);
+
+  if ('' in errors) {
+    errors[root] = errors[''];
+    delete errors[''];
+  }
+
+  // No errors means every validator returned its value
+  return Object.keys(errors).length > 0 ? { ok: false, errors } : { ok: true, value: result as T };
+};
+
+const fail = (errors: FieldErrors, path: string, message: string): undefined => {
+  // Keep the first problem reported for a field
+  errors[path] ??= message;
+  return undefined;
+};
+
+// Top-level fields are reported by name alone ("servings", not "body.servings")
+const join = (path: string, key: string | number) => (path ? `${path}.${key}` : String(key));
+
+export const string = ({ min = 1, max = 200 }: { min?: number; max?: number } = {}): Validator<string> => (
+  value, path, errors
+) => {
+  if (typeof value !== 'string') {
+    return fail(errors, path, 'must be a string');
+  }
+  const trimmed = value.trim();
+  if (trimmed.length < min) {
+    return fail(errors, path, min === 1 ? 'must not be empty' : `must be at least ${min} characters`);
+  }
+  if (trimmed.length > max) {
+    return fail(errors, path, `must be at most ${max} characters`);
+  }
+  return trimmed;
+};
+
+interface NumberOptions {
+  min?: number;
+  max?: number;
+  // Strict lower bound, e.g. servings must be > 0
+  positive?: boolean;
+  integer?: boolean;
+  // Query strings arrive as text
+  coerce?: boolean;
+}
+
+export const number = ({ min, max, positive, integer, coerce }: NumberOptions = {}): Validator<number> => (
+  value, path, errors
+) => {
+  const n = coerce && typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+
+  if (typeof n !== 'number' || !Number.isFinite(n)) {
+    return fail(errors, path, 'must be a number');
+  }
+  if (integer && !Number.isInteger(n)) {
+    return fail(errors, path, 'must be an integer');
+  }
+  if (positive && n <= 0) {
+    return fail(errors, path, 'must be greater than 0');
+  }
+  if (min !== undefined && max !== undefined && (n < min || n > max)) {
+    return fail(errors, path, `must be between ${min} and ${max}`);
+  }
+  if (min !== undefined && n < min) {
+    return fail(errors, path, `must be at least ${min}`);
+  }
+  if (max !== undefined && n > max) {
+    return fail(errors, path, `must be at most ${max}`);
+  }
+  return n;
+};
+
+export const boolean = (): Validator<boolean> => (value, path, errors) => {
+  if (typeof value !== 'boolean') {
+    return fail(errors, path, 'must be a boolean');
+  }
+  return value;
+};
+
+export const oneOf = <T extends string>(values: readonly T[]): Validator<T> => (value, path, errors) => {
+  if (typeof value !== 'string' || !values.includes(value as T)) {
+    return fail(errors, path, `must be one of: ${values.join(', ')}`);
+  }
+  return value as T;
+};
+
+// Any date-time Date can parse; normalised to ISO 8601 UTC
+export const dateTime = (): Validator<string> => (value, path, errors) => {
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) {
+    return fail(errors, path, 'must be a valid ISO date-time');
+  }
+  return date.toISOString();
+};
+
+// A calendar day, YYYY-MM-DD
+export const day = (): Validator<string> => (value, path, errors) => {
+  if (typeof value !== 'string' || !isValidDay(value)) {
+    return fail(errors, path, 'must be a date in YYYY-MM-DD format');
+  }
+  return value;
+};
+
+// A row id, lowercased to match how Postgres returns uuids
+export const uuid = (): Validator<string> => (value, path, errors) => {
+  if (!isUuid(value)) {
+    return fail(errors, path, 'must be a UUID');
+  }
+  return value.toLowerCase();
+};
+
+export const arrayOf = <T>(item: Validator<T>, { max = 50 }: { max?: number } = {}): Validator<T[]> => (
+  value, path, errors
+) => {
+  if (!Array.isArray(value)) {
+    return fail(errors, path, 'must be an array');
+  }
+  if (value.length > max) {
+    return fail(errors, path, `must have at most ${max} items`);
+  }
+  const before = Object.keys(errors).length;
+  const items = value.map((element, i) => item(element, join(path, i), errors));
+  return Object.keys(errors).length > before ? undefined : (items as T[]);
+};
+
+// Validate with a predicate and an optional conversion, e.g. decoding a cursor
+export const custom = <T>(
+  check: (value: unknown) => T | undefined,
+  message: string
+): Validator<T> => (value, path, errors) => {
+  const result = check(value);
+  if (result === undefined) {
+    return fail(errors, path, message);
+  }
+  return result;
+};
+
+export const optional = <T>(validator: Validator<T>): Validator<T | undefined> => (value, path, errors) => {
+  return value === undefined ? undefined : validator(value, path, errors);
+};
+
+// Explicit null is accepted (e.g. to clear a field); undefined means "not provided"
+export const nullable = <T>(validator: Validator<T>): Validator<T | null | undefined> => (value, path, errors) => {
+  if (value === undefined) return undefined;
+  return value === null ? null : validator(value, path, errors);
+};
+
+export const withDefault = <T>(validator: Validator<T>, fallback: T): Validator<T> => (value, path, errors) => {
+  return value === undefined ? fallback : validator(value, path, errors);
+};
+
+type Shape = Record<string, Validator<unknown>>;
+
+interface ObjectOptions<T> {
+  // Reject an object where every field is undefined (partial updates)
+  nonEmpty?: boolean;
+  // Cross-field rules, run once every field is valid
+  check?: (value: T) => FieldErrors | null;
+}
+
+// Unknown keys are dropped, so handlers only ever see declared fields
+export const object = <S extends Shape>(
+  shape: S,
+  { nonEmpty, check }: ObjectOptions<{ [K in keyof S]: Infer<S[K]> }> = {}
+): Validator<{ [K in keyof S]: Infer<S[K]> }> => (value, path, errors) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return fail(errors, path, 'must be an object');
+  }
+
+  const before = Object.keys(errors).length;
+  const result: Record<string, unknown> = {};
+  for (const [key, validator] of Object.entries(shape)) {
+    result[key] = validator((value as Record<string, unknown>)[key], join(path, key), errors);
+  }
+
+  if (Object.keys(errors).length > before) {
+    return undefined;
+  }
+
+  if (nonEmpty && Object.values(result).every((field) => field === undefined)) {
+    return fail(errors, path, `must include at least one of: ${Object.keys(shape).join(', ')}`);
+  }
+
+  const typed = result as { [K in keyof S]: Infer<S[K]> };
+  const problems = check?.(typed);
+  if (problems) {
+    for (const [key, message] of Object.entries(problems)) {
+      fail(errors, join(path, key), message);
+    }
+    return undefined;
+  }
+
+  return typed;
+};
@@ -0,0 +1,48 @@
+// src/validation/subscription.ts
+import { PLANS } from '../services/plans';
+import { boolean, number, object, oneOf, optional, string, withDefault } from './schema';
+
+const planId = oneOf(PLANS.map((plan) => plan.id));
+
+export const createSubscriptionSchema = {
+  body: object({
+    setup_intent_id: optional(string()),
+    plan: optional(planId),
+    price_id: optional(string()),
+    promotion_code: optional(string({ max: 100 })),
+    coupon: optional(string({ max: 100 })),
+    trial: withDefault(boolean(), false),
+  }),
+};
+
+export const changePlanSchema = {
+  body: object({
+    plan: optional(planId),
+    price_id: optional(string()),
+    preview: withDefault(boolean(), false),
+    // Unix timestamp returned by a preview
+    proration_date: optional(number({ integer: true, positive: true })),
+  }),
+};
+
+export const listInvoicesSchema = {
+  query: object({
+    limit: withDefault(number({ integer: true, min: 1, max: 100, coerce: true }), 12),
+    starting_after: optional(string()),
+  }),
+};
+
+export const defaultPaymentMethodSchema = {
+  body: object({ payment_method_id: string() }),
+};
+
+export const paymentMethodParams = {
+  params: object({ id: string() }),
+};
+
+export const updatePaymentMethodSchema = {
+  body: object({
+    setup_intent_id: optional(string()),
+    payment_method_id: optional(string()),
+  }, { nonEmpty: true }),
+};
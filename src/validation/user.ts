@@ -0,0 +1,65 @@
+// src/validation/user.ts
+import { isValidTimezone } from '../utils/timezone';
+import {
+  CAFFEINE_SENSITIVITIES,
+  CLEARANCE_MEDICATIONS,
+  PREGNANCY_STATUSES
+} from '../utils/recommendations';
+import { Infer, arrayOf, boolean, custom, day, nullable, number, object, oneOf, optional, withDefault } from './schema';
+
+export const dailyLimitSchema = {
+  body: object({ daily_caffeine_limit: number({ min: 50, max: 1000 }) }),
+};
+
+export const strictModeSchema = {
+  body: object({ strict_limit_mode: boolean() }),
+};
+
+export const halfLifeSchema = {
+  body: object({ caffeine_half_life_hours: number({ min: 1, max: 24 }) }),
+};
+
+export const timezoneSchema = {
+  body: object({
+    timezone: custom(
+      (value) => (isValidTimezone(value) ? value : undefined),
+      'must be a valid IANA timezone name'
+    ),
+  }),
+};
+
+// Partial update; null clears a field
+export const healthProfileSchema = {
+  body: object({
+    body_weight_kg: nullable(number({ min: 20, max: 400 })),
+    pregnancy_status: nullable(oneOf(PREGNANCY_STATUSES)),
+    caffeine_sensitivity: nullable(oneOf(CAFFEINE_SENSITIVITIES)),
+    medications: nullable(arrayOf(oneOf(Object.keys(CLEARANCE_MEDICATIONS)))),
+  }, {
+    nonEmpty: true,
+    // A repeated medication would have its effect on clearance applied twice
+    check: ({ medications }) => (
+      medications && new Set(medications).size < medications.length ? { medications: 'must not repeat a medication' } : null
+    ),
+  }),
+};
+
+export const EXPORT_FORMATS = ['csv', 'json'] as const;
+
+// Without a range the whole history is exported
+export const exportSchema = {
+  query: object({
+    format: withDefault(oneOf(EXPORT_FORMATS), 'csv'),
+    from: optional(day()),
+    to: optional(day()),
+  }, { check: ({ from, to }) => (from && to && from > to ? { from: 'must be on or before to' } : null) }),
+};
+
+// The CSV itself is the request body (text/csv)
+export const importSchema = {
+  query: object({
+    dry_run: withDefault(oneOf(['true', 'false']), 'false'),
+  }),
+};
+
+export type HealthProfileBody = Infer<typeof healthProfileSchema.body>;
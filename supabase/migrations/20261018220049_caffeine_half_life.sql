@@ -0,0 +1,5 @@
+-- Per-user half-life for the active caffeine model. Null uses the 5 hour default.
+alter table public.user_profiles
+  add column if not exists caffeine_half_life_hours numeric
+    constraint user_profiles_caffeine_half_life_hours_check
+      check (caffeine_half_life_hours between 1 and 24);
@@ -0,0 +1,4 @@
+-- IANA timezone (e.g. "Europe/Madrid") that intake_logs.date is bucketed in. Null is UTC,
+-- which is how every existing log's date was computed.
+alter table public.user_profiles
+  add column if not exists timezone text;
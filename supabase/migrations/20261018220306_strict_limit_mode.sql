@@ -0,0 +1,3 @@
+-- Strict mode refuses intake logs that would take the user over their daily limit
+alter table public.user_profiles
+  add column if not exists strict_limit_mode boolean not null default false;
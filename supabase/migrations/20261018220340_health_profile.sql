@@ -0,0 +1,12 @@
+-- Optional health details behind personalised limit recommendations
+alter table public.user_profiles
+  add column if not exists body_weight_kg numeric
+    constraint user_profiles_body_weight_kg_check check (body_weight_kg between 20 and 400),
+  add column if not exists pregnancy_status text
+    constraint user_profiles_pregnancy_status_check
+      check (pregnancy_status in ('none', 'pregnant', 'breastfeeding')),
+  add column if not exists caffeine_sensitivity text
+    constraint user_profiles_caffeine_sensitivity_check
+      check (caffeine_sensitivity in ('low', 'normal', 'high')),
+  -- Keys of CLEARANCE_MEDICATIONS in src/utils/recommendations.ts
+  add column if not exists medications text[];
@@ -0,0 +1,17 @@
+-- Time of the last Stripe event applied to the profile's subscription fields. Updates from
+-- older events are skipped, so deliveries that arrive out of order can't roll state back.
+alter table public.user_profiles
+  add column if not exists subscription_event_at timestamptz;
+
+-- One row per processed Stripe event. The primary key is what makes a redelivery a no-op:
+-- a second insert of the same event ID fails with a unique violation.
+create table if not exists public.stripe_webhook_events (
+  id text primary key,
+  type text not null,
+  -- When Stripe created the event
+  created_at timestamptz,
+  received_at timestamptz not null default now()
+);
+
+-- Only the backend (service role) reads or writes this table
+alter table public.stripe_webhook_events enable row level security;
@@ -0,0 +1,6 @@
+-- Plan behind the subscription status. Lifetime access has no Stripe subscription, so this is
+-- the only record of it.
+alter table public.user_profiles
+  add column if not exists subscription_plan text
+    constraint user_profiles_subscription_plan_check
+      check (subscription_plan in ('monthly', 'annual', 'lifetime'));
@@ -0,0 +1,3 @@
+-- One free trial per account
+alter table public.user_profiles
+  add column if not exists trial_used boolean not null default false;
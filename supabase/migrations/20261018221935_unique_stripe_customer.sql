@@ -0,0 +1,4 @@
+-- Webhooks find the profile by Stripe customer (ProfileRepository.findByStripeCustomerId),
+-- which expects at most one match
+create unique index if not exists user_profiles_stripe_customer_id_key
+  on public.user_profiles (stripe_customer_id);
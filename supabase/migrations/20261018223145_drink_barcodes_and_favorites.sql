@@ -0,0 +1,18 @@
+-- Normalised EAN/UPC (see src/utils/barcode.ts). Not unique: a user's custom drink may share
+-- a catalog drink's barcode, and the user's own wins on lookup.
+alter table public.drinks
+  add column if not exists barcode text;
+
+create index if not exists drinks_barcode_idx
+  on public.drinks (barcode)
+  where barcode is not null;
+
+create table if not exists public.drink_favorites (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  drink_id uuid not null references public.drinks (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  -- Also the conflict target that makes favouriting twice a no-op
+  primary key (user_id, drink_id)
+);
+
+alter table public.drink_favorites enable row level security;
@@ -0,0 +1,14 @@
+-- Size variants ([{ name, caffeine_mg, volume_ml }]) and concentration for volume logging
+alter table public.drinks
+  add column if not exists caffeine_per_100ml numeric
+    constraint drinks_caffeine_per_100ml_check check (caffeine_per_100ml >= 0),
+  add column if not exists sizes jsonb not null default '[]'::jsonb;
+
+-- How each log's total was derived. Existing logs are all counts of the default serving.
+alter table public.intake_logs
+  add column if not exists measure text not null default 'servings'
+    constraint intake_logs_measure_check check (measure in ('servings', 'size', 'volume')),
+  add column if not exists size_name text,
+  add column if not exists volume_ml numeric,
+  add column if not exists volume_unit text
+    constraint intake_logs_volume_unit_check check (volume_unit in ('ml', 'fl_oz'));
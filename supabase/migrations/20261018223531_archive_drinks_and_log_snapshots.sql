@@ -0,0 +1,30 @@
+-- Custom drinks are archived rather than deleted, so the logs that reference them survive
+alter table public.drinks
+  add column if not exists archived_at timestamptz;
+
+-- Drink name and per-serving caffeine as they were when the log was made, so editing a drink
+-- doesn't rewrite history
+alter table public.intake_logs
+  add column if not exists drink_name text,
+  add column if not exists caffeine_per_serving numeric;
+
+-- Existing logs take the drink's current values; size logs take the matching size's caffeine
+update public.intake_logs as log
+set
+  drink_name = drink.name,
+  caffeine_per_serving = coalesce(
+    (
+      select (size ->> 'caffeine_mg')::numeric
+      from jsonb_array_elements(drink.sizes) as size
+      where log.measure = 'size' and size ->> 'name' = log.size_name
+      limit 1
+    ),
+    drink.caffeine_per_serving
+  )
+from public.drinks as drink
+where drink.id = log.drink_id
+  and log.drink_name is null;
+
+alter table public.intake_logs
+  alter column drink_name set not null,
+  alter column caffeine_per_serving set not null;
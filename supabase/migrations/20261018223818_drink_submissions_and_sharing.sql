@@ -0,0 +1,42 @@
+-- Admins moderate community drink submissions
+alter table public.user_profiles
+  add column if not exists role text not null default 'user'
+    constraint user_profiles_role_check check (role in ('user', 'admin'));
+
+-- Anyone holding the token can import a copy of the custom drink; null when not shared
+alter table public.drinks
+  add column if not exists share_token text
+    constraint drinks_share_token_key unique;
+
+-- A custom drink proposed for the public catalog. The drink fields are copied at submission
+-- time, so later edits to the custom drink don't change what moderators review.
+create table if not exists public.drink_submissions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  drink_id uuid not null references public.drinks (id) on delete cascade,
+  name text not null,
+  caffeine_per_serving numeric not null,
+  category text not null,
+  brand text,
+  serving_size text,
+  caffeine_per_100ml numeric,
+  sizes jsonb not null default '[]'::jsonb,
+  barcode text,
+  status text not null default 'pending'
+    constraint drink_submissions_status_check check (status in ('pending', 'approved', 'rejected')),
+  rejection_reason text,
+  reviewed_by uuid references auth.users (id) on delete set null,
+  reviewed_at timestamptz,
+  -- The catalog drink created on approval
+  catalog_drink_id uuid references public.drinks (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists drink_submissions_user_id_idx
+  on public.drink_submissions (user_id, created_at desc);
+
+-- The moderation queue
+create index if not exists drink_submissions_status_idx
+  on public.drink_submissions (status, created_at);
+
+alter table public.drink_submissions enable row level security;
@@ -0,0 +1,33 @@
+-- Audit record of a request to delete an account. It outlives the account, so user_id has no
+-- foreign key, and it holds no personal data beyond that ID.
+create table if not exists public.account_deletions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  status text not null default 'scheduled'
+    constraint account_deletions_status_check
+      check (status in ('scheduled', 'cancelled', 'processing', 'completed')),
+  requested_at timestamptz not null default now(),
+  -- End of the undo window; the data is removed after this
+  scheduled_for timestamptz not null,
+  cancelled_at timestamptz,
+  completed_at timestamptz,
+  -- Subscription whose renewal was turned off, turned back on if the request is undone
+  paused_subscription_id text,
+  -- Counts of what a completed deletion removed
+  summary jsonb,
+  last_error text
+);
+
+create index if not exists account_deletions_user_id_idx
+  on public.account_deletions (user_id, requested_at desc);
+
+-- The periodic run picks up scheduled deletions that have come due
+create index if not exists account_deletions_due_idx
+  on public.account_deletions (status, scheduled_for);
+
+-- At most one deletion in flight per user
+create unique index if not exists account_deletions_open_key
+  on public.account_deletions (user_id)
+  where status in ('scheduled', 'processing');
+
+alter table public.account_deletions enable row level security;
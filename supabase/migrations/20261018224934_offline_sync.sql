@@ -0,0 +1,33 @@
+-- Last write time of each row, for the changes feeds. The app stamps it on every write so
+-- both feeds are ordered by the same clock.
+alter table public.drinks
+  add column if not exists updated_at timestamptz not null default now();
+
+alter table public.intake_logs
+  add column if not exists updated_at timestamptz not null default now(),
+  -- ID the client generated for the log; a retried batch upload reuses it
+  add column if not exists client_id text;
+
+-- Makes batch uploads idempotent: the upsert's conflict target (user_id, client_id). Logs
+-- without a client ID never conflict, since nulls are distinct.
+alter table public.intake_logs
+  add constraint intake_logs_user_id_client_id_key unique (user_id, client_id);
+
+create index if not exists intake_logs_changes_idx
+  on public.intake_logs (user_id, updated_at, id);
+
+create index if not exists drinks_changes_idx
+  on public.drinks (updated_at, id);
+
+-- Left behind when a log is deleted, so clients syncing later learn it's gone. The ID is the
+-- deleted log's.
+create table if not exists public.intake_log_deletions (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  deleted_at timestamptz not null default now()
+);
+
+create index if not exists intake_log_deletions_changes_idx
+  on public.intake_log_deletions (user_id, deleted_at, id);
+
+alter table public.intake_log_deletions enable row level security;
@@ -0,0 +1,31 @@
+-- A named set of drinks a user has at set times, e.g. "morning routine"
+create table if not exists public.routines (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  -- [{ drink_id, servings, size, time }], time being a local HH:MM
+  items jsonb not null default '[]'::jsonb,
+  -- Days the routine is scheduled on ('mon' … 'sun'); empty for one only logged by hand
+  weekdays text[] not null default '{}',
+  -- Add scheduled items as pending logs for the user to confirm or dismiss
+  auto_log boolean not null default false,
+  -- Scheduled items up to this instant have been added as pending logs
+  scheduled_through timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists routines_user_id_idx
+  on public.routines (user_id, name);
+
+alter table public.routines enable row level security;
+
+-- Pending logs were added by a routine's schedule and count for nothing until confirmed.
+-- Every existing log was entered by the user.
+alter table public.intake_logs
+  add column if not exists status text not null default 'logged'
+    constraint intake_logs_status_check check (status in ('logged', 'pending')),
+  add column if not exists routine_id uuid references public.routines (id) on delete set null;
+
+create index if not exists intake_logs_pending_idx
+  on public.intake_logs (user_id, consumed_at desc)
+  where status = 'pending';
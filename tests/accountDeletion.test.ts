@@ -0,0 +1,37 @@
+import { createTestApp, USER_ID } from './helpers';
+
+describe('account deletion', () => {
+  it('schedules a deletion and lets the user undo it', async () => {
+    const ctx = createTestApp();
+
+    const scheduled = await ctx.as().delete('/api/user');
+    const cancelled = await ctx.as().post('/api/user/deletion/cancel');
+
+    expect(scheduled.status).toBe(202);
+    expect(scheduled.body).toMatchObject({ user_id: USER_ID, status: 'scheduled' });
+    expect(cancelled.status).toBe(200);
+    expect(cancelled.body.status).toBe('cancelled');
+  });
+
+  it('rejects a second request while one is scheduled', async () => {
+    const ctx = createTestApp();
+    await ctx.as().delete('/api/user');
+
+    const res = await ctx.as().delete('/api/user');
+
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('deletion_already_scheduled');
+  });
+
+  it('reports a conflict when a concurrent request scheduled the deletion first', async () => {
+    const ctx = createTestApp();
+    const first = await ctx.as().delete('/api/user');
+    // As if this request had checked before the other one's row was written
+    jest.spyOn(ctx.repositories.accountDeletions, 'findLatestForUser').mockResolvedValueOnce(null);
+
+    const res = await ctx.as().delete('/api/user');
+
+    expect(res.status).toBe(409);
+    expect(res.body).toMatchObject({ code: 'deletion_already_scheduled', scheduled_for: first.body.scheduled_for });
+  });
+});
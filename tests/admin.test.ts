@@ -0,0 +1,26 @@
+import { createTestApp, USER_ID } from './helpers';
+
+describe('admin', () => {
+  it('publishes an approved submission to the catalog', async () => {
+    const ctx = createTestApp();
+    const drink = await ctx.as().post('/api/drinks', { name: 'Cold brew', caffeine_per_serving: 150, category: 'coffee' });
+    const submission = await ctx.as().post(`/api/drinks/${drink.body.id}/submit`);
+    await ctx.repositories.profiles.upsert(USER_ID, { role: 'admin' });
+
+    const res = await ctx.as().post(`/api/admin/submissions/${submission.body.id}/approve`);
+
+    expect(submission.status).toBe(201);
+    expect(res.status).toBe(200);
+    expect(res.body.submission).toMatchObject({ status: 'approved', reviewed_by: USER_ID });
+    expect(res.body.drink).toMatchObject({ name: 'Cold brew', is_custom: false, user_id: null });
+  });
+
+  it('is closed to users without the admin role', async () => {
+    const ctx = createTestApp();
+
+    const res = await ctx.as().get('/api/admin/submissions');
+
+    expect(res.status).toBe(403);
+    expect(res.body.code).toBe('admin_required');
+  });
+});
@@ -0,0 +1,103 @@
+import { createInMemoryBillingProvider } from '../src/billing/memoryProvider';
+import { isEntitled, stateFromSubscription } from '../src/services/subscription';
+
+const DAY = 24 * 60 * 60;
+
+const setup = async () => {
+  const billing = createInMemoryBillingProvider();
+  billing.addPrice({ id: 'price_monthly', amount: 499, currency: 'usd', interval: 'month', interval_count: 1 });
+  const { id: customerId } = await billing.createCustomer({ email: 'user@example.com' });
+  const paymentMethodId = billing.addCard(customerId);
+
+  // Entitlement as the app would judge it, on the provider's clock
+  const entitled = (subscription: Parameters<typeof stateFromSubscription>[0]) => {
+    const state = stateFromSubscription(subscription);
+    return isEntitled(state.status, state.expires_at, state.plan, new Date(billing.now() * 1000));
+  };
+
+  return { billing, customerId, paymentMethodId, entitled };
+};
+
+describe('in-memory billing lifecycle', () => {
+  it('subscribes, cancels, reactivates and renews', async () => {
+    const { billing, customerId, paymentMethodId, entitled } = await setup();
+
+    const created = await billing.createSubscription({
+      customer_id: customerId,
+      price_id: 'price_monthly',
+      payment_method_id: paymentMethodId,
+    });
+    expect(stateFromSubscription(created).status).toBe('active');
+    expect(entitled(created)).toBe(true);
+
+    const cancelled = await billing.updateSubscription(created.id, { cancel_at_period_end: true });
+    expect(stateFromSubscription(cancelled).status).toBe('active_until_period_end');
+    expect(entitled(cancelled)).toBe(true);
+
+    const reactivated = await billing.updateSubscription(created.id, { cancel_at_period_end: false });
+    expect(stateFromSubscription(reactivated).status).toBe('active');
+
+    // A reactivated subscription renews at period end instead of ending
+    const renewed = billing.simulateRenewal(created.id);
+    expect(renewed.status).toBe('active');
+    expect(renewed.current_period_end!).toBeGreaterThan(created.current_period_end!);
+    expect(entitled(renewed)).toBe(true);
+  });
+
+  it('ends a cancelled subscription at period end', async () => {
+    const { billing, customerId, paymentMethodId, entitled } = await setup();
+    const created = await billing.createSubscription({
+      customer_id: customerId,
+      price_id: 'price_monthly',
+      payment_method_id: paymentMethodId,
+    });
+
+    await billing.updateSubscription(created.id, { cancel_at_period_end: true });
+    const ended = billing.simulateRenewal(created.id);
+
+    expect(ended.status).toBe('canceled');
+    expect(stateFromSubscription(ended)).toMatchObject({ status: 'cancelled', subscription_id: null });
+    expect(entitled(ended)).toBe(false);
+    expect(billing.events.map((event) => event.type)).toContain('customer.subscription.deleted');
+  });
+
+  it('goes past due on a failed renewal and expires when retries run out', async () => {
+    const { billing, customerId, paymentMethodId, entitled } = await setup();
+    const created = await billing.createSubscription({
+      customer_id: customerId,
+      price_id: 'price_monthly',
+      payment_method_id: paymentMethodId,
+    });
+
+    const failed = billing.simulatePaymentFailure(created.id);
+    expect(stateFromSubscription(failed).status).toBe('past_due');
+    expect(billing.events.map((event) => event.type)).toContain('invoice.payment_failed');
+
+    billing.advanceTime(30 * DAY);
+    const expired = billing.simulateExpiry(created.id);
+    expect(stateFromSubscription(expired).status).toBe('cancelled');
+    expect(entitled(expired)).toBe(false);
+  });
+
+  it('declines a subscription on a card that fails', async () => {
+    const { billing, customerId } = await setup();
+    const declining = billing.addCard(customerId, { declines: true });
+
+    await expect(billing.createSubscription({
+      customer_id: customerId,
+      price_id: 'price_monthly',
+      payment_method_id: declining,
+    })).rejects.toThrow('declined');
+  });
+
+  it('signs events that verify, and rejects altered ones', async () => {
+    const { billing, customerId, paymentMethodId } = await setup();
+    await billing.createSubscription({ customer_id: customerId, price_id: 'price_monthly', payment_method_id: paymentMethodId });
+    const { payload, signature } = billing.signEvent(billing.events[0]);
+
+    await expect(billing.constructWebhookEvent(payload, signature)).resolves.toEqual(billing.events[0]);
+    await expect(
+      billing.constructWebhookEvent(Buffer.from(payload.toString().replace(customerId, 'cus_other')), signature)
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,47 @@
+import { activeCaffeineAt, timeUntilBelow } from '../src/utils/caffeine';
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2025-01-01T12:00:00Z');
+const at = (hours: number) => new Date(now.getTime() + hours * HOUR).toISOString();
+
+describe('timeUntilBelow', () => {
+  it('solves the crossing of a single decaying dose', () => {
+    const doses = [{ consumed_at: at(0), total_caffeine: 200 }];
+
+    expect(timeUntilBelow(doses, now, 50, 5).toISOString()).toBe(at(10));
+  });
+
+  it('returns now when already below the threshold', () => {
+    const doses = [{ consumed_at: at(-20), total_caffeine: 100 }];
+
+    expect(timeUntilBelow(doses, now, 50, 5)).toEqual(now);
+  });
+
+  it('finds a crossing before a later dose that keeps the total below', () => {
+    // 100mg now drops to 50mg at +5h; a 10mg dose at +8h only lifts it to ~43mg
+    const doses = [
+      { consumed_at: at(0), total_caffeine: 100 },
+      { consumed_at: at(8), total_caffeine: 10 },
+    ];
+
+    expect(timeUntilBelow(doses, now, 50, 5).toISOString()).toBe(at(5));
+  });
+
+  it('discards a crossing undone by a later dose', () => {
+    const doses = [
+      { consumed_at: at(0), total_caffeine: 100 },
+      { consumed_at: at(8), total_caffeine: 100 },
+    ];
+
+    const belowAt = timeUntilBelow(doses, now, 50, 5);
+
+    expect(belowAt.getTime()).toBeGreaterThan(now.getTime() + 8 * HOUR);
+    expect(activeCaffeineAt(doses, belowAt, 5)).toBeCloseTo(50);
+  });
+
+  it('throws when a zero threshold can never be reached', () => {
+    const doses = [{ consumed_at: at(0), total_caffeine: 100 }];
+
+    expect(() => timeUntilBelow(doses, now, 0, 5)).toThrow();
+  });
+});
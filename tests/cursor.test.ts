@@ -0,0 +1,31 @@
+import { decodeCursor, encodeCursor } from '../src/utils/cursor';
+
+const ID = '3f1c2a9e-5b7d-4c1e-9a2b-6d8e0f4a1b3c';
+
+const raw = (text: string) => Buffer.from(text).toString('base64url');
+
+describe('decodeCursor', () => {
+  it('round-trips a cursor it encoded', () => {
+    const cursor = { consumed_at: '2026-10-18T08:00:00.000Z', id: ID };
+
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it('normalises the timestamp to ISO 8601 UTC', () => {
+    expect(decodeCursor(raw(`2026-10-18T10:00:00+02:00|${ID}`))).toEqual({
+      consumed_at: '2026-10-18T08:00:00.000Z',
+      id: ID,
+    });
+  });
+
+  it.each([
+    ['an id that is not a uuid', `2026-10-18T08:00:00.000Z|abc`],
+    ['an id carrying filter syntax', `2026-10-18T08:00:00.000Z|${ID}",id.gt."0`],
+    ['a timestamp carrying filter syntax', `2026-10-18T08:00:00.000Z",or(id.gt.0)|${ID}`],
+    ['an unparseable timestamp', `yesterday|${ID}`],
+    ['extra parts', `2026-10-18T08:00:00.000Z|${ID}|more`],
+    ['a missing id', '2026-10-18T08:00:00.000Z'],
+  ])('rejects %s', (_, text) => {
+    expect(decodeCursor(raw(text))).toBeNull();
+  });
+});
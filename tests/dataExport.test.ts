@@ -0,0 +1,99 @@
+import request from 'supertest';
+import { createTestApp, USER_ID, USER_TOKEN } from './helpers';
+
+describe('takeout', () => {
+  it('includes pending routine entries alongside logged intake', async () => {
+    const ctx = createTestApp();
+    const drink = await ctx.as().post('/api/drinks', { name: 'Cold brew', caffeine_per_serving: 150, category: 'coffee' });
+    await ctx.as().post('/api/intake', { drink_id: drink.body.id, consumed_at: '2026-10-18T08:00:00.000Z' });
+    const pending = await ctx.repositories.intake.create({
+      user_id: USER_ID,
+      client_id: null,
+      status: 'pending',
+      routine_id: null,
+      drink_id: drink.body.id,
+      drink_name: 'Cold brew',
+      caffeine_per_serving: 150,
+      servings: 1,
+      measure: 'servings',
+      size_name: null,
+      volume_ml: null,
+      volume_unit: null,
+      total_caffeine: 150,
+      consumed_at: '2026-10-19T08:00:00.000Z',
+      date: '2026-10-19',
+      notes: null,
+    });
+
+    const res = await ctx.as().get('/api/user/takeout');
+
+    expect(res.status).toBe(200);
+    expect(res.body.intake_logs).toHaveLength(1);
+    expect(res.body.pending_intake_logs).toEqual([expect.objectContaining({ id: pending.id, status: 'pending' })]);
+  });
+});
+
+describe('intake export', () => {
+  it('exports premium users\' logs as CSV', async () => {
+    const ctx = createTestApp();
+    await ctx.grantPremium();
+    const drink = await ctx.as().post('/api/drinks', { name: 'Cold brew', caffeine_per_serving: 150, category: 'coffee' });
+    await ctx.as().post('/api/intake', { drink_id: drink.body.id, consumed_at: '2026-10-18T08:00:00.000Z' });
+
+    const res = await ctx.as().get('/api/user/export?format=csv');
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toMatch(/^text\/csv/);
+    expect(res.text.trim().split('\n')).toHaveLength(2);
+    expect(res.text).toContain('Cold brew');
+  });
+
+  it('requires premium', async () => {
+    const ctx = createTestApp();
+
+    const res = await ctx.as().get('/api/user/export');
+
+    expect(res.status).toBe(403);
+    expect(res.body).toMatchObject({ code: 'premium_required', feature: 'export' });
+  });
+});
+
+describe('CSV import', () => {
+  const csv = [
+    'date,time,drink,caffeine',
+    '2026-10-17,08:00,Brand new brew,120',
+    '2026-10-18,08:00,Brand new brew,120',
+  ].join('\n');
+
+  const importCsv = (ctx: ReturnType<typeof createTestApp>) =>
+    request(ctx.app)
+      .post('/api/user/import')
+      .set('Authorization', `Bearer ${USER_TOKEN}`)
+      .set('Content-Type', 'text/csv')
+      .send(csv);
+
+  it('imports rows and creates the drinks they need', async () => {
+    const ctx = createTestApp();
+    await ctx.grantPremium();
+
+    const res = await importCsv(ctx);
+
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ imported: 2, duplicates: 0, created_drinks: [{ name: 'Brand new brew' }] });
+  });
+
+  it('removes the drinks it created when the logs fail to insert, so a retry creates them once', async () => {
+    const ctx = createTestApp();
+    await ctx.grantPremium();
+    jest.spyOn(ctx.repositories.intake, 'createMany').mockRejectedValueOnce(new Error('insert failed'));
+
+    const failed = await importCsv(ctx);
+    expect(failed.status).toBe(500);
+    expect(await ctx.repositories.drinks.countCustom(USER_ID)).toBe(0);
+
+    const retried = await importCsv(ctx);
+    expect(retried.status).toBe(201);
+    expect(retried.body.imported).toBe(2);
+    expect(await ctx.repositories.drinks.countCustom(USER_ID)).toBe(1);
+  });
+});
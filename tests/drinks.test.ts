@@ -0,0 +1,26 @@
+import crypto from 'crypto';
+import { createTestApp } from './helpers';
+
+const coldBrew = { name: 'Cold brew', caffeine_per_serving: 150, category: 'coffee' };
+
+describe('drinks', () => {
+  it('creates a custom drink and lists it', async () => {
+    const ctx = createTestApp();
+
+    const created = await ctx.as().post('/api/drinks', coldBrew);
+    const listed = await ctx.as().get('/api/drinks');
+
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ ...coldBrew, is_custom: true });
+    expect(listed.body).toEqual([expect.objectContaining({ id: created.body.id, name: 'Cold brew' })]);
+  });
+
+  it('returns a 404 when updating a drink that does not exist', async () => {
+    const ctx = createTestApp();
+
+    const res = await ctx.as().put(`/api/drinks/${crypto.randomUUID()}`, { name: 'Renamed' });
+
+    expect(res.status).toBe(404);
+    expect(res.body.code).toBe('drink_not_found');
+  });
+});
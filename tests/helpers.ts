@@ -0,0 +1,69 @@
+// tests/helpers.ts
+// An app wired to in-memory repositories and billing, with helpers to act as a user and to
+// deliver the billing events the provider has emitted as signed webhooks
+import request from 'supertest';
+import { createApp } from '../src/app';
+import { createInMemoryRepositories, createInMemoryAuthProvider } from '../src/repositories/memory';
+import { createInMemoryBillingProvider } from '../src/billing/memoryProvider';
+import { PLANS, PlanId } from '../src/services/plans';
+
+const INTERVALS: Record<PlanId, 'month' | 'year' | null> = { monthly: 'month', annual: 'year', lifetime: null };
+
+export const USER_TOKEN = 'token_user';
+export const USER_ID = 'user_1';
+
+export const createTestApp = () => {
+  const repositories = createInMemoryRepositories();
+  const billing = createInMemoryBillingProvider();
+  const auth = createInMemoryAuthProvider({ [USER_TOKEN]: { id: USER_ID, email: 'user@example.com' } });
+  const app = createApp({ repositories, billing, auth });
+
+  for (const plan of PLANS) {
+    billing.addPrice({
+      id: process.env[plan.priceEnv]!,
+      amount: plan.billing === 'one_time' ? 9900 : 499,
+      currency: 'usd',
+      interval: INTERVALS[plan.id],
+      interval_count: 1,
+    });
+  }
+
+  const as = (token: string = USER_TOKEN) => ({
+    get: (path: string) => request(app).get(path).set('Authorization', `Bearer ${token}`),
+    post: (path: string, body: object = {}) => request(app).post(path).set('Authorization', `Bearer ${token}`).send(body),
+    put: (path: string, body: object = {}) => request(app).put(path).set('Authorization', `Bearer ${token}`).send(body),
+    delete: (path: string) => request(app).delete(path).set('Authorization', `Bearer ${token}`),
+  });
+
+  const sendWebhook = (payload: Buffer | string, signature: string) =>
+    request(app)
+      .post('/api/subscription/webhook')
+      .set('Content-Type', 'application/json')
+      .set('stripe-signature', signature)
+      .send(payload.toString());
+
+  // Deliver every event emitted since the last call, in order
+  let delivered = 0;
+  const deliverEvents = async () => {
+    while (delivered < billing.events.length) {
+      const { payload, signature } = billing.signEvent(billing.events[delivered++]);
+      const res = await sendWebhook(payload, signature);
+      if (res.status !== 200) {
+        throw new Error(`webhook failed with ${res.status}: ${JSON.stringify(res.body)}`);
+      }
+    }
+  };
+
+  // Save a card to the user's billing customer, as the app does before subscribing
+  const addCard = async (token: string = USER_TOKEN) => {
+    const res = await as(token).post('/api/subscription/setup-intent');
+    billing.completeSetupIntent(res.body.setup_intent_id);
+    return res.body as { setup_intent_id: string; customer_id: string };
+  };
+
+  // Premium without going through billing: a lifetime purchase recorded on the profile
+  const grantPremium = (userId: string = USER_ID) =>
+    repositories.profiles.upsert(userId, { subscription_status: 'active', subscription_plan: 'lifetime' });
+
+  return { app, repositories, billing, as, sendWebhook, deliverEvents, addCard, grantPremium };
+};
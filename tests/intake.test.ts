@@ -0,0 +1,54 @@
+import crypto from 'crypto';
+import { createTestApp } from './helpers';
+
+const createDrink = async (ctx: ReturnType<typeof createTestApp>) => {
+  const res = await ctx.as().post('/api/drinks', { name: 'Cold brew', caffeine_per_serving: 150, category: 'coffee' });
+  return res.body.id as string;
+};
+
+describe('intake', () => {
+  it('logs a drink and counts it in the day total', async () => {
+    const ctx = createTestApp();
+    const drinkId = await createDrink(ctx);
+
+    const logged = await ctx.as().post('/api/intake', { drink_id: drinkId, servings: 2 });
+    const daily = await ctx.as().get(`/api/intake/daily/${logged.body.date}`);
+
+    expect(logged.status).toBe(201);
+    expect(logged.body).toMatchObject({ drink_id: drinkId, total_caffeine: 300 });
+    expect(logged.body.limit_status).toMatchObject({ projected_total: 300 });
+    expect(daily.body).toMatchObject({ total_caffeine: 300, logs: [expect.objectContaining({ id: logged.body.id })] });
+  });
+
+  it('returns a 404 when logging a drink that does not exist', async () => {
+    const ctx = createTestApp();
+
+    const res = await ctx.as().post('/api/intake', { drink_id: crypto.randomUUID() });
+
+    expect(res.status).toBe(404);
+    expect(res.body.code).toBe('drink_not_found');
+  });
+});
+
+describe('insights', () => {
+  it('summarises premium users\' intake', async () => {
+    const ctx = createTestApp();
+    await ctx.grantPremium();
+    const drinkId = await createDrink(ctx);
+    await ctx.as().post('/api/intake', { drink_id: drinkId });
+
+    const res = await ctx.as().get('/api/intake/insights?days=7');
+
+    expect(res.status).toBe(200);
+    expect(res.body.top_drinks).toEqual([expect.objectContaining({ drink_id: drinkId, name: 'Cold brew' })]);
+  });
+
+  it('requires premium', async () => {
+    const ctx = createTestApp();
+
+    const res = await ctx.as().get('/api/intake/insights');
+
+    expect(res.status).toBe(403);
+    expect(res.body).toMatchObject({ code: 'premium_required', feature: 'analytics' });
+  });
+});
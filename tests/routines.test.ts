@@ -0,0 +1,32 @@
+import crypto from 'crypto';
+import { createTestApp } from './helpers';
+
+describe('routines', () => {
+  it('creates a routine and logs every item in one call', async () => {
+    const ctx = createTestApp();
+    const drink = await ctx.as().post('/api/drinks', { name: 'Cold brew', caffeine_per_serving: 150, category: 'coffee' });
+
+    const routine = await ctx.as().post('/api/routines', {
+      name: 'Morning',
+      items: [
+        { drink_id: drink.body.id, time: '07:30' },
+        { drink_id: drink.body.id, servings: 0.5, time: '10:00' },
+      ],
+    });
+    const logged = await ctx.as().post(`/api/routines/${routine.body.id}/log`);
+
+    expect(routine.status).toBe(201);
+    expect(logged.status).toBe(201);
+    expect(logged.body.logs).toHaveLength(2);
+    expect(logged.body.logs.map((log: { total_caffeine: number }) => log.total_caffeine)).toEqual([150, 75]);
+  });
+
+  it('returns a 404 for a routine that does not exist', async () => {
+    const ctx = createTestApp();
+
+    const res = await ctx.as().post(`/api/routines/${crypto.randomUUID()}/log`);
+
+    expect(res.status).toBe(404);
+    expect(res.body.code).toBe('routine_not_found');
+  });
+});
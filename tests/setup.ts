@@ -0,0 +1,9 @@
+// tests/setup.ts
+// Environment shared by every test file: quiet logs and a price for each plan
+import { PLANS } from '../src/services/plans';
+
+process.env.LOG_LEVEL = 'error';
+
+for (const plan of PLANS) {
+  process.env[plan.priceEnv] = `price_${plan.id}`;
+}
@@ -0,0 +1,199 @@
+import { createTestApp, USER_ID } from './helpers';
+
+const DAY = 24 * 60 * 60;
+
+const subscribe = async (ctx: ReturnType<typeof createTestApp>, body: object = { plan: 'monthly' }) => {
+  const { setup_intent_id } = await ctx.addCard();
+  const res = await ctx.as().post('/api/subscription/create', { setup_intent_id, ...body });
+  expect(res.status).toBe(200);
+  await ctx.deliverEvents();
+  return res.body as { subscription_id: string; status: string };
+};
+
+describe('subscription lifecycle', () => {
+  it('subscribes and unlocks premium', async () => {
+    const ctx = createTestApp();
+
+    const created = await subscribe(ctx);
+
+    expect(created.status).toBe('active');
+    const status = await ctx.as().get('/api/subscription/status');
+    expect(status.body).toMatchObject({ status: 'active', tier: 'premium', plan: 'monthly', will_renew: true });
+    expect((await ctx.as().get('/api/user/export')).status).toBe(200);
+  });
+
+  it('reports a fresh trial as premium on the provider clock', async () => {
+    const ctx = createTestApp();
+
+    const created = await subscribe(ctx, { plan: 'monthly', trial: true });
+
+    expect(created.status).toBe('trialing');
+    const status = await ctx.as().get('/api/subscription/status');
+    expect(status.body).toMatchObject({ status: 'trialing', tier: 'premium', trial_days_remaining: 7 });
+  });
+
+  it('rejects a second subscription', async () => {
+    const ctx = createTestApp();
+    await subscribe(ctx);
+
+    const res = await ctx.as().post('/api/subscription/create', { plan: 'annual' });
+
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('subscription_exists');
+  });
+
+  it('extends access on renewal', async () => {
+    const ctx = createTestApp();
+    const { subscription_id } = await subscribe(ctx);
+    const paidUntil = (await ctx.repositories.profiles.findById(USER_ID))!.subscription_expires_at!;
+
+    ctx.billing.simulateRenewal(subscription_id);
+    await ctx.deliverEvents();
+
+    const after = await ctx.repositories.profiles.findById(USER_ID);
+    expect(after?.subscription_status).toBe('active');
+    expect(new Date(after!.subscription_expires_at!).getTime()).toBeGreaterThan(new Date(paidUntil).getTime());
+    expect((await ctx.as().get('/api/subscription/status')).body.tier).toBe('premium');
+  });
+
+  it('keeps access through the grace period after a failed renewal, measured from the last paid period', async () => {
+    const ctx = createTestApp();
+    const { subscription_id } = await subscribe(ctx);
+    const paidUntil = (await ctx.repositories.profiles.findById(USER_ID))!.subscription_expires_at;
+
+    ctx.billing.simulatePaymentFailure(subscription_id);
+    await ctx.deliverEvents();
+
+    const profile = await ctx.repositories.profiles.findById(USER_ID);
+    expect(profile?.subscription_status).toBe('past_due');
+    expect(profile?.subscription_expires_at).toBe(paidUntil);
+    expect((await ctx.as().get('/api/user/export')).status).toBe(200);
+
+    // Another failed attempt rolls the provider's period on but doesn't extend access
+    ctx.billing.simulatePaymentFailure(subscription_id);
+    await ctx.deliverEvents();
+    expect((await ctx.repositories.profiles.findById(USER_ID))?.subscription_expires_at).toBe(paidUntil);
+    expect((await ctx.as().get('/api/user/export')).status).toBe(403);
+  });
+
+  it('loses premium once the grace period after a failed renewal runs out', async () => {
+    const ctx = createTestApp();
+    const { subscription_id } = await subscribe(ctx);
+
+    ctx.billing.simulatePaymentFailure(subscription_id);
+    await ctx.deliverEvents();
+    ctx.billing.advanceTime(4 * DAY);
+
+    const res = await ctx.as().get('/api/user/export');
+    expect(res.status).toBe(403);
+  });
+
+  it('revokes access on a full refund and does not revive it on re-sync', async () => {
+    const ctx = createTestApp();
+    const { subscription_id } = await subscribe(ctx);
+    const { stripe_customer_id } = (await ctx.repositories.profiles.findById(USER_ID))!;
+
+    ctx.billing.simulateRefund(stripe_customer_id!);
+    await ctx.deliverEvents();
+
+    const profile = await ctx.repositories.profiles.findById(USER_ID);
+    expect(profile).toMatchObject({ subscription_status: 'refunded', subscription_id: null });
+    expect((await ctx.billing.getSubscription(subscription_id)).status).toBe('canceled');
+    const status = await ctx.as().get('/api/subscription/status');
+    expect(status.body.tier).toBe('free');
+    expect((await ctx.repositories.profiles.findById(USER_ID))?.subscription_status).toBe('refunded');
+  });
+
+  it('lets a refunded user subscribe again', async () => {
+    const ctx = createTestApp();
+    await subscribe(ctx);
+    const { stripe_customer_id } = (await ctx.repositories.profiles.findById(USER_ID))!;
+    ctx.billing.simulateRefund(stripe_customer_id!);
+    await ctx.deliverEvents();
+
+    const res = await ctx.as().post('/api/subscription/create', { plan: 'monthly' });
+    await ctx.deliverEvents();
+
+    expect(res.status).toBe(200);
+    expect((await ctx.as().get('/api/subscription/status')).body).toMatchObject({ status: 'active', tier: 'premium' });
+  });
+
+  it('keeps access until the period ends after cancelling', async () => {
+    const ctx = createTestApp();
+    const { subscription_id } = await subscribe(ctx);
+
+    const cancelled = await ctx.as().post('/api/subscription/cancel');
+    await ctx.deliverEvents();
+
+    expect(cancelled.status).toBe(200);
+    expect((await ctx.as().get('/api/subscription/status')).body).toMatchObject({
+      status: 'active_until_period_end',
+      tier: 'premium',
+      will_renew: false,
+    });
+
+    // At period end the subscription ends instead of renewing
+    ctx.billing.simulateRenewal(subscription_id);
+    await ctx.deliverEvents();
+
+    const profile = await ctx.repositories.profiles.findById(USER_ID);
+    expect(profile).toMatchObject({ subscription_status: 'cancelled', subscription_id: null });
+    expect((await ctx.as().get('/api/user/export')).status).toBe(403);
+  });
+
+  it('renews instead of ending after cancelling and reactivating', async () => {
+    const ctx = createTestApp();
+    const { subscription_id } = await subscribe(ctx);
+    await ctx.as().post('/api/subscription/cancel');
+    await ctx.deliverEvents();
+
+    const reactivated = await ctx.as().post('/api/subscription/reactivate');
+    await ctx.deliverEvents();
+
+    expect(reactivated.status).toBe(200);
+    expect((await ctx.as().get('/api/subscription/status')).body).toMatchObject({
+      status: 'active',
+      tier: 'premium',
+      will_renew: true,
+    });
+
+    const paidUntil = (await ctx.repositories.profiles.findById(USER_ID))!.subscription_expires_at!;
+    ctx.billing.simulateRenewal(subscription_id);
+    await ctx.deliverEvents();
+
+    const profile = await ctx.repositories.profiles.findById(USER_ID);
+    expect(profile).toMatchObject({ subscription_status: 'active', subscription_id });
+    expect(new Date(profile!.subscription_expires_at!).getTime()).toBeGreaterThan(new Date(paidUntil).getTime());
+    expect((await ctx.as().get('/api/user/export')).status).toBe(200);
+  });
+
+  it('grants open-ended access only to lifetime purchases', async () => {
+    const ctx = createTestApp();
+
+    await subscribe(ctx, { plan: 'lifetime' });
+
+    expect((await ctx.as().get('/api/subscription/status')).body).toMatchObject({ plan: 'lifetime', tier: 'premium' });
+    await ctx.repositories.profiles.update(USER_ID, { subscription_plan: 'monthly' });
+    expect((await ctx.as().get('/api/user/export')).status).toBe(403);
+  });
+
+  it('ignores a refund delivered after a newer subscription took over', async () => {
+    const ctx = createTestApp();
+    const { subscription_id } = await subscribe(ctx);
+    const { stripe_customer_id } = (await ctx.repositories.profiles.findById(USER_ID))!;
+    ctx.billing.simulateRefund(stripe_customer_id!);
+    const refund = ctx.billing.events.pop()!;
+
+    // The first subscription ends and a new one starts before the refund arrives
+    await ctx.billing.cancelSubscription(subscription_id);
+    await ctx.deliverEvents();
+    ctx.billing.advanceTime(DAY);
+    const resubscribed = await ctx.as().post('/api/subscription/create', { plan: 'monthly' });
+    await ctx.deliverEvents();
+    const { payload, signature } = ctx.billing.signEvent(refund);
+    await ctx.sendWebhook(payload.toString(), signature);
+
+    expect((await ctx.billing.getSubscription(resubscribed.body.subscription_id)).status).toBe('active');
+    expect((await ctx.repositories.profiles.findById(USER_ID))?.subscription_status).toBe('active');
+  });
+});
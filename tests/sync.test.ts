@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+import { createTestApp } from './helpers';
+
+const createDrink = async (ctx: ReturnType<typeof createTestApp>) => {
+  const res = await ctx.as().post('/api/drinks', { name: 'Cold brew', caffeine_per_serving: 150, category: 'coffee' });
+  expect(res.status).toBe(201);
+  return res.body.id as string;
+};
+
+const entry = (drinkId: string) => ({
+  client_id: crypto.randomUUID(),
+  drink_id: drinkId,
+  servings: 1,
+  consumed_at: '2026-10-18T08:00:00.000Z',
+});
+
+describe('batch intake upload', () => {
+  it('fails an entry with a malformed drink_id without failing the rest', async () => {
+    const ctx = createTestApp();
+    const drinkId = await createDrink(ctx);
+    const good = entry(drinkId);
+    const bad = entry('abc');
+
+    const res = await ctx.as().post('/api/intake/batch', { entries: [good, bad] });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ created: 1, failed: 1 });
+    expect(res.body.results[0]).toMatchObject({ client_id: good.client_id, status: 'created' });
+    expect(res.body.results[1]).toMatchObject({
+      client_id: bad.client_id,
+      status: 'failed',
+      code: 'validation_failed',
+      fields: { drink_id: 'must be a UUID' },
+    });
+  });
+});
+
+describe('changes feed', () => {
+  it('returns logs uploaded since the given time', async () => {
+    const ctx = createTestApp();
+    const drinkId = await createDrink(ctx);
+    const since = new Date(Date.now() - 60 * 1000).toISOString();
+    const uploaded = entry(drinkId);
+    const batch = await ctx.as().post('/api/intake/batch', { entries: [uploaded] });
+    // Rows from the last few seconds are held back until they settle
+    const stored = ctx.repositories.store.intakeLogs.get(batch.body.results[0].log.id)!;
+    stored.updated_at = new Date(Date.now() - 10 * 1000).toISOString();
+
+    const res = await ctx.as().get(`/api/intake/changes?since=${since}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.logs).toEqual([expect.objectContaining({ client_id: uploaded.client_id })]);
+    expect(res.body).toMatchObject({ has_more: false, next_since: expect.any(String) });
+  });
+
+  it('rejects a since value it did not issue', async () => {
+    const ctx = createTestApp();
+
+    const res = await ctx.as().get('/api/intake/changes?since=garbage');
+
+    expect(res.status).toBe(400);
+    expect(res.body.fields).toHaveProperty('since');
+  });
+});
@@ -0,0 +1,36 @@
+import { createTestApp, USER_ID } from './helpers';
+
+describe('profile', () => {
+  it('sets the daily limit', async () => {
+    const ctx = createTestApp();
+    // Created at signup
+    await ctx.repositories.profiles.upsert(USER_ID, {});
+
+    const res = await ctx.as().put('/api/user/daily-limit', { daily_caffeine_limit: 300 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.daily_caffeine_limit).toBe(300);
+    expect((await ctx.as().get('/api/user/profile')).body.daily_caffeine_limit).toBe(300);
+  });
+
+  it('rejects a daily limit out of range', async () => {
+    const ctx = createTestApp();
+
+    const res = await ctx.as().put('/api/user/daily-limit', { daily_caffeine_limit: 5000 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.fields).toEqual({ daily_caffeine_limit: 'must be between 50 and 1000' });
+  });
+});
+
+describe('health profile', () => {
+  it('rejects a medication listed twice', async () => {
+    const ctx = createTestApp();
+
+    const res = await ctx.as().put('/api/user/health-profile', { medications: ['fluvoxamine', 'fluvoxamine'] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.fields).toEqual({ medications: 'must not repeat a medication' });
+    expect((await ctx.repositories.profiles.findById(USER_ID))?.medications ?? null).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+import { createTestApp, USER_ID } from './helpers';
+
+// Ids that aren't uuids must be rejected before they reach a query, where Postgres fails on them
+describe('malformed ids', () => {
+  it.each([
+    ['get', '/api/routines/abc'],
+    ['put', '/api/drinks/abc'],
+    ['delete', '/api/drinks/abc'],
+    ['put', '/api/intake/abc'],
+    ['delete', '/api/intake/abc'],
+    ['post', '/api/intake/abc/confirm'],
+  ] as const)('rejects %s %s with a 400', async (method, path) => {
+    const ctx = createTestApp();
+
+    const res = await ctx.as()[method](path);
+
+    expect(res.status).toBe(400);
+    expect(res.body).toMatchObject({ code: 'validation_failed', fields: { id: 'must be a UUID' } });
+  });
+
+  it('rejects a drink_id that is not a uuid when logging', async () => {
+    const ctx = createTestApp();
+
+    const res = await ctx.as().post('/api/intake', { drink_id: 'abc' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.fields).toMatchObject({ drink_id: 'must be a UUID' });
+  });
+
+  it('rejects a routine item whose drink_id is not a uuid', async () => {
+    const ctx = createTestApp();
+
+    const res = await ctx.as().post('/api/routines', { name: 'Morning', items: [{ drink_id: 'abc' }] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.fields).toMatchObject({ 'items.0.drink_id': 'must be a UUID' });
+  });
+
+  it('rejects a submission id that is not a uuid', async () => {
+    const ctx = createTestApp();
+    await ctx.repositories.profiles.upsert(USER_ID, { role: 'admin' });
+
+    const res = await ctx.as().post('/api/admin/submissions/abc/approve');
+
+    expect(res.status).toBe(400);
+    expect(res.body.fields).toMatchObject({ id: 'must be a UUID' });
+  });
+});
@@ -0,0 +1,76 @@
+import { createTestApp, USER_ID } from './helpers';
+
+const subscribe = async (ctx: ReturnType<typeof createTestApp>) => {
+  const { setup_intent_id } = await ctx.addCard();
+  const res = await ctx.as().post('/api/subscription/create', { setup_intent_id, plan: 'monthly' });
+  return res.body as { subscription_id: string };
+};
+
+describe('billing webhook', () => {
+  it('applies a correctly signed event', async () => {
+    const ctx = createTestApp();
+    await subscribe(ctx);
+    const { payload, signature } = ctx.billing.signEvent(ctx.billing.events[0]);
+
+    const res = await ctx.sendWebhook(payload.toString(), signature);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ received: true });
+  });
+
+  it('rejects a bad signature with a 400', async () => {
+    const ctx = createTestApp();
+    await subscribe(ctx);
+    const { payload, signature } = ctx.billing.signEvent(ctx.billing.events[0]);
+    const tampered = signature.replace(/v1=(.)/, (_, first) => `v1=${first === '0' ? '1' : '0'}`);
+
+    const res = await ctx.sendWebhook(payload.toString(), tampered);
+
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('invalid_signature');
+  });
+
+  it('rejects a signature over a different payload', async () => {
+    const ctx = createTestApp();
+    await subscribe(ctx);
+    const { signature } = ctx.billing.signEvent(ctx.billing.events[0]);
+    const forged = JSON.stringify({ ...ctx.billing.events[0], customer_id: 'cus_other' });
+
+    const res = await ctx.sendWebhook(forged, signature);
+
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects a stale timestamp', async () => {
+    const ctx = createTestApp();
+    await subscribe(ctx);
+    const { payload, signature } = ctx.billing.signEvent(ctx.billing.events[0]);
+
+    ctx.billing.advanceTime(10 * 60);
+    const res = await ctx.sendWebhook(payload.toString(), signature);
+
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('invalid_signature');
+  });
+
+  it('treats a redelivered event id as a no-op', async () => {
+    const ctx = createTestApp();
+    await subscribe(ctx);
+    await ctx.deliverEvents();
+    const { stripe_customer_id } = (await ctx.repositories.profiles.findById(USER_ID))!;
+    ctx.billing.simulateRefund(stripe_customer_id!);
+    const refund = ctx.billing.events[ctx.billing.events.length - 1];
+    await ctx.deliverEvents();
+
+    // Processing the refund again would cancel the subscription taken out since
+    const resubscribed = await ctx.as().post('/api/subscription/create', { plan: 'monthly' });
+    await ctx.deliverEvents();
+    const { payload, signature } = ctx.billing.signEvent(refund);
+    const res = await ctx.sendWebhook(payload.toString(), signature);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ received: true, duplicate: true });
+    expect((await ctx.billing.getSubscription(resubscribed.body.subscription_id)).status).toBe('active');
+    expect((await ctx.repositories.profiles.findById(USER_ID))?.subscription_status).toBe('active');
+  });
+});